@@ -0,0 +1,128 @@
+/**
+ * Pattern regression suite: every built-in pattern and scanner against its must-match
+ * and must-not-match samples (the same self-test Settings runs), plus end-to-end checks
+ * of masking and restoring
+ * Usage: npm run self-test (also part of npm test)
+ */
+
+import type { CustomPattern, PatternMatch } from '../src/types/patterns';
+import { detectSecretPatterns, maskSecretPatterns, restoreFromMasked } from '../src/core/detector';
+import { CHUNK_SIZE, detectInChunks } from '../src/core/chunking';
+import { compileSafeRegex } from '../src/core/safeRegex';
+import { describeSelfTestFailure, runSelfTest } from '../src/core/selfTest';
+
+const report = runSelfTest();
+
+report.failures.forEach((failure) => {
+  console.error(`✗ ${describeSelfTestFailure(failure)}`);
+});
+
+console.log(
+  `${report.patterns} patterns, ${report.samples} samples, ${report.failures.length} failures`
+);
+
+/**
+ * Custom pattern as stored in settings
+ */
+function storedPattern(regex: string, replacement: string): CustomPattern {
+  return {
+    id: 'custom_check',
+    name: 'Check',
+    regex,
+    flags: 'g',
+    replacement,
+    category: 'custom',
+    severity: 'high',
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+// Name → problem (empty when the check passes)
+const checks: [string, () => string | Promise<string>][] = [
+  [
+    'replacement with braces stored before templates existed',
+    () => {
+      const pattern = storedPattern('EMP-\\d{5}', '[{INTERNAL}]');
+      const { masked } = maskSecretPatterns('id EMP-12345', { custom: true }, [pattern]);
+      return masked === 'id [{INTERNAL}]' ? '' : `masked as "${masked}"`;
+    },
+  ],
+  [
+    'escaped braces render as typed',
+    () => {
+      const pattern = storedPattern('EMP-\\d{5}', '[{{INTERNAL}} len={len}]');
+      const { masked } = maskSecretPatterns('id EMP-12345', { custom: true }, [pattern]);
+      return masked === 'id [{INTERNAL} len=9]' ? '' : `masked as "${masked}"`;
+    },
+  ],
+  [
+    'regexes that can backtrack catastrophically are refused',
+    () => {
+      const refused = ['(a+)+$', '(a|aa)+$', '(\\w|\\d)+$', '(?:x|[a-z]y)*z', '(a|b?c)+'];
+      const accepted = ['(cat|dog)+', '(?:[A-Z]|\\d)+-\\w+', '(a|aa){1,3}$', 'EMP-\\d{5}'];
+      const compiles = (source: string) => {
+        try {
+          compileSafeRegex(source, 'gi');
+          return true;
+        } catch {
+          return false;
+        }
+      };
+      return [
+        ...refused.filter(compiles).map((source) => `${source} compiled`),
+        ...accepted.filter((source) => !compiles(source)).map((source) => `${source} refused`),
+      ].join(', ');
+    },
+  ],
+  [
+    'secrets with $ replacement patterns restore exactly',
+    () => {
+      const pattern = storedPattern('PW-\\S+', '[PW]');
+      const text = 'login PW-Tr0ub4dor$&x then PW-a$1b$$c$`d';
+      const { masked, restoreMap } = maskSecretPatterns(text, { custom: true }, [pattern]);
+      const restored = restoreFromMasked(masked, restoreMap);
+      return restored === text ? '' : `restored as "${restored}"`;
+    },
+  ],
+  [
+    'large Secret manifest split across chunks is masked like a single scan',
+    async () => {
+      const entries: string[] = [];
+      for (let i = 0; entries.join('').length < CHUNK_SIZE * 1.5; i++) {
+        entries.push(`  key_${i}: ${btoa(`value-${i}-x7Kq2mVr9TnW`)}\n`);
+      }
+      const text = `apiVersion: v1\nkind: Secret\nmetadata:\n  name: big\ndata:\n${entries.join('')}`;
+      const describe = (matches: PatternMatch[]) =>
+        matches.map((match) => `${match.patternKey}@${match.index}`);
+
+      const whole = describe(detectSecretPatterns(text).matches);
+      const chunked = new Set(describe((await detectInChunks(text))!.matches));
+      const missing = whole.filter((match) => !chunked.has(match)).length;
+      return missing === 0 && chunked.size === whole.length
+        ? ''
+        : `${missing} of ${whole.length} matches missing, ${chunked.size} found`;
+    },
+  ],
+];
+
+let failedChecks = 0;
+for (const [name, check] of checks) {
+  let problem: string;
+  try {
+    problem = await check();
+  } catch (error) {
+    problem = error instanceof Error ? error.message : String(error);
+  }
+  if (problem) {
+    failedChecks++;
+    console.error(`✗ ${name}: ${problem}`);
+  }
+}
+
+console.log(`${checks.length} end-to-end checks, ${failedChecks} failures`);
+
+if (report.failures.length > 0 || failedChecks > 0) {
+  process.exit(1);
+}
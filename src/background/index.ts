@@ -20,6 +20,12 @@ import {
   deleteCustomPattern,
   toggleCustomPattern,
   incrementCustomPatternCount,
+  markCustomPatternsTimedOut,
+  incrementPatternCounts,
+  getPatternStats,
+  getAllowlist,
+  addAllowlistEntry,
+  deleteAllowlistEntry,
 } from './storage';
 import {
   getRegisteredSites,
@@ -27,7 +33,13 @@ import {
   removeSite,
   isSiteRegistered,
 } from './siteManager';
-import { onMessage, type Message, type MessageResponse } from '../utils/messaging';
+import { handleScanPort } from './pasteScanner';
+import {
+  onMessage,
+  SCAN_PORT_NAME,
+  type Message,
+  type MessageResponse,
+} from '../utils/messaging';
 
 console.log('[Clip Guard AI] Background worker initialized');
 
@@ -52,6 +64,13 @@ onMessage((message: Message, sender, sendResponse) => {
   return true;
 });
 
+// Scan large pastes off the page's main thread
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === SCAN_PORT_NAME) {
+    handleScanPort(port);
+  }
+});
+
 /**
  * Handle incoming messages
  */
@@ -218,6 +237,54 @@ async function handleMessage(
         return { success: true };
       }
 
+      case 'MARK_PATTERNS_TIMED_OUT': {
+        await markCustomPatternsTimedOut(data.patternIds);
+        return { success: true };
+      }
+
+      case 'INCREMENT_PATTERN_COUNTS': {
+        await incrementPatternCounts(data.hostname, data.patternCounts);
+        return { success: true };
+      }
+
+      case 'GET_PATTERN_STATS': {
+        const stats = await getPatternStats();
+        return { success: true, data: stats };
+      }
+
+      case 'GET_ALLOWLIST': {
+        const allowlist = await getAllowlist();
+        return { success: true, data: allowlist };
+      }
+
+      case 'ADD_ALLOWLIST_ENTRY': {
+        try {
+          const newEntry = await addAllowlistEntry(data.entry);
+          // Broadcast settings change to all tabs
+          await handleMessage({ type: 'SETTINGS_CHANGED', data: {} }, _sender);
+          return { success: true, data: newEntry };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to add allowlist entry',
+          };
+        }
+      }
+
+      case 'DELETE_ALLOWLIST_ENTRY': {
+        try {
+          await deleteAllowlistEntry(data.id);
+          // Broadcast settings change to all tabs
+          await handleMessage({ type: 'SETTINGS_CHANGED', data: {} }, _sender);
+          return { success: true };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to delete allowlist entry',
+          };
+        }
+      }
+
       default:
         return {
           success: false,
@@ -0,0 +1,47 @@
+/**
+ * Background scanning of large pastes
+ * Keeps multi-megabyte detection off the page's main thread; the content script
+ * connects a port, receives progress messages and closes the port to cancel
+ * Only detection runs here: the content script masks, so placeholders come from its session
+ */
+
+import { detectInChunks } from '@/core/chunking';
+import type { ScanPortMessage, ScanRequest } from '../utils/messaging';
+
+/**
+ * Handle one scan request on a newly connected port
+ */
+export function handleScanPort(port: chrome.runtime.Port): void {
+  let cancelled = false;
+
+  port.onDisconnect.addListener(() => {
+    cancelled = true;
+  });
+
+  const post = (message: ScanPortMessage) => {
+    if (!cancelled) port.postMessage(message);
+  };
+
+  port.onMessage.addListener(async (request: ScanRequest) => {
+    if (request.type !== 'scan') return;
+
+    try {
+      const results = await detectInChunks(
+        request.text,
+        request.enabledCategories,
+        request.customPatterns,
+        request.detectionOptions,
+        {
+          onProgress: (scanned, total) => post({ type: 'progress', scanned, total }),
+          isCancelled: () => cancelled,
+        }
+      );
+      if (!results) return;
+
+      post({ type: 'result', result: results });
+    } catch (error) {
+      console.error('[Clip Guard AI] Error scanning paste:', error);
+      post({ type: 'error', error: error instanceof Error ? error.message : 'Scan failed' });
+    }
+  });
+}
@@ -2,11 +2,39 @@
  * Chrome Storage API wrapper for settings persistence
  */
 
-import type { CustomPattern } from '@/types/patterns';
+import type {
+  CustomPattern,
+  AllowlistEntry,
+  MaskingMode,
+  MaskingStrategy,
+  PatternCategory,
+  PatternOverrides,
+} from '@/types/patterns';
+import { compileSafeRegex, compileWholeValueRegex, normalizeFlags } from '@/core/safeRegex';
+import {
+  escapeReplacementTemplate,
+  isReplacementTemplate,
+  validateReplacementTemplate,
+} from '@/core/template';
+import { DEFAULT_ID_LENGTH } from '@/core/placeholders';
+import { describeSelfTestFailure, testCustomPattern } from '@/core/selfTest';
+
+/**
+ * What happens to a paste above maxPasteSizeKB
+ * block: nothing is pasted; truncate: only the first maxPasteSizeKB is masked and pasted;
+ * allow: the whole paste is scanned anyway
+ */
+export type OversizePastePolicy = 'block' | 'truncate' | 'allow';
 
 export interface AppSettings {
   enabled: boolean;
   enableRestoration: boolean; // Pro feature: restore originals on copy
+  maxPasteSizeKB: number;
+  oversizePastePolicy: OversizePastePolicy;
+  maskingMode: MaskingMode; // placeholder: [AWS_KEY#q3q1]; synthetic: fake of the same format
+  placeholderIdLength: number; // Characters after # in placeholders (4-12)
+  maskingStrategies: Partial<Record<PatternCategory, MaskingStrategy>>; // Missing = default
+  patternOverrides: PatternOverrides; // Built-in pattern key → enabled/label/priority
   categories: {
     cloud_keys: boolean;
     api_tokens: boolean;
@@ -15,6 +43,9 @@ export interface AppSettings {
     database: boolean;
     network: boolean;
     pii: boolean;
+    kubernetes: boolean;
+    high_entropy: boolean;
+    encoded: boolean;
     custom: boolean;
   };
   categoryCounts: {
@@ -25,6 +56,9 @@ export interface AppSettings {
     database: number;
     network: number;
     pii: number;
+    kubernetes: number;
+    high_entropy: number;
+    encoded: number;
     custom: number;
   };
   registeredSites: string[];
@@ -36,11 +70,18 @@ export interface AppSettings {
   };
   protectedCount: number;
   customPatterns?: CustomPattern[];
+  allowlist?: AllowlistEntry[]; // Known-safe values, never masked
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
   enabled: true,
   enableRestoration: true, // Free feature - enabled by default
+  maxPasteSizeKB: 2048,
+  oversizePastePolicy: 'block',
+  maskingMode: 'placeholder',
+  placeholderIdLength: DEFAULT_ID_LENGTH,
+  maskingStrategies: {},
+  patternOverrides: {},
   categories: {
     cloud_keys: true,
     api_tokens: true,
@@ -49,6 +90,9 @@ const DEFAULT_SETTINGS: AppSettings = {
     database: true,
     network: false, // Optional category, disabled by default
     pii: false, // Optional category, disabled by default
+    kubernetes: true,
+    high_entropy: true, // Generic secrets without a known prefix
+    encoded: true, // Secrets inside base64, URL-encoded or escaped text
     custom: true, // Custom patterns enabled by default
   },
   categoryCounts: {
@@ -59,6 +103,9 @@ const DEFAULT_SETTINGS: AppSettings = {
     database: 0,
     network: 0,
     pii: 0,
+    kubernetes: 0,
+    high_entropy: 0,
+    encoded: 0,
     custom: 0,
   },
   registeredSites: [
@@ -77,8 +124,35 @@ const DEFAULT_SETTINGS: AppSettings = {
   },
   protectedCount: 0,
   customPatterns: [],
+  allowlist: [],
 };
 
+/**
+ * How often each detector masked something, per site: hostname → pattern key → count
+ * Kept in local storage, apart from the synced settings, so it can't push them over
+ * the sync quota
+ */
+export type PatternStats = Record<string, Record<string, number>>;
+
+const PATTERN_STATS_KEY = 'patternStats';
+
+/**
+ * Escape the braces of a replacement that isn't a valid template, e.g. [{INTERNAL}]
+ * Every template saved since templates exist was validated, so these predate them
+ */
+function migrateReplacement(pattern: CustomPattern): CustomPattern {
+  if (!isReplacementTemplate(pattern.replacement)) {
+    return pattern;
+  }
+
+  try {
+    validateReplacementTemplate(pattern.replacement);
+    return pattern;
+  } catch {
+    return { ...pattern, replacement: escapeReplacementTemplate(pattern.replacement) };
+  }
+}
+
 /**
  * Get all settings from Chrome storage
  */
@@ -93,6 +167,44 @@ export async function getSettings(): Promise<AppSettings> {
           settings.enableRestoration = true; // Enable by default
         }
 
+        // Migration: Add paste size cap if missing
+        if (settings.maxPasteSizeKB === undefined) {
+          settings.maxPasteSizeKB = DEFAULT_SETTINGS.maxPasteSizeKB;
+        }
+        if (settings.oversizePastePolicy === undefined) {
+          settings.oversizePastePolicy = DEFAULT_SETTINGS.oversizePastePolicy;
+        }
+
+        // Migration: Add masking mode if missing
+        if (settings.maskingMode === undefined) {
+          settings.maskingMode = DEFAULT_SETTINGS.maskingMode;
+        }
+
+        // Migration: Add placeholder ID length if missing
+        if (settings.placeholderIdLength === undefined) {
+          settings.placeholderIdLength = DEFAULT_SETTINGS.placeholderIdLength;
+        }
+
+        // Migration: Add per-category masking strategies if missing
+        if (settings.maskingStrategies === undefined) {
+          settings.maskingStrategies = {};
+        }
+
+        // Migration: Add built-in pattern overrides if missing
+        if (settings.patternOverrides === undefined) {
+          settings.patternOverrides = {};
+        }
+
+        // Migration: Replacements saved before templates existed keep their braces literal
+        settings.customPatterns = settings.customPatterns?.map(migrateReplacement);
+
+        // Migration: Add categories introduced after install
+        settings.categories = { ...DEFAULT_SETTINGS.categories, ...settings.categories };
+        settings.categoryCounts = {
+          ...DEFAULT_SETTINGS.categoryCounts,
+          ...settings.categoryCounts,
+        };
+
         resolve(settings);
       } else {
         resolve(DEFAULT_SETTINGS);
@@ -315,6 +427,9 @@ export async function incrementCategoryCounts(
       database: 0,
       network: 0,
       pii: 0,
+      kubernetes: 0,
+      high_entropy: 0,
+      encoded: 0,
       custom: 0,
     };
   }
@@ -357,11 +472,17 @@ export async function addCustomPattern(
     settings.customPatterns = [];
   }
 
-  // Validate regex pattern
-  try {
-    new RegExp(pattern.regex, pattern.flags || 'g');
-  } catch (error) {
-    throw new Error('Invalid regex pattern');
+  // Validate regex pattern (throws for invalid syntax and nested quantifiers)
+  compileSafeRegex(pattern.regex, pattern.flags);
+  pattern = { ...pattern, flags: normalizeFlags(pattern.flags) };
+
+  // Validate replacement template variables ({len}, {suffix:4}, …)
+  validateReplacementTemplate(pattern.replacement);
+
+  // Refuse a pattern that fails its own samples
+  const [failure] = testCustomPattern(pattern);
+  if (failure) {
+    throw new Error(describeSelfTestFailure(failure));
   }
 
   // Check for duplicate pattern names
@@ -422,15 +543,12 @@ export async function updateCustomPattern(
 
   const pattern = settings.customPatterns[patternIndex];
 
-  // Validate regex if being updated
+  // Validate regex if being updated; saving it gives a timed-out pattern another chance
   if (updates.regex !== undefined || updates.flags !== undefined) {
     const regex = updates.regex !== undefined ? updates.regex : pattern.regex;
     const flags = updates.flags !== undefined ? updates.flags : pattern.flags;
-    try {
-      new RegExp(regex, flags || 'g');
-    } catch (error) {
-      throw new Error('Invalid regex pattern');
-    }
+    compileSafeRegex(regex, flags);
+    updates = { ...updates, flags: normalizeFlags(flags), timedOut: false };
   }
 
   // Check for duplicate name if being updated
@@ -455,6 +573,11 @@ export async function updateCustomPattern(
     }
   }
 
+  // Validate replacement template if being updated
+  if (updates.replacement !== undefined) {
+    validateReplacementTemplate(updates.replacement);
+  }
+
   // Check for duplicate replacement text if being updated
   if (updates.replacement !== undefined && updates.replacement !== pattern.replacement) {
     const duplicateReplacement = settings.customPatterns.find(
@@ -472,6 +595,12 @@ export async function updateCustomPattern(
     updatedAt: Date.now(),
   };
 
+  // Refuse a pattern that fails its own samples
+  const [failure] = testCustomPattern(updatedPattern);
+  if (failure) {
+    throw new Error(describeSelfTestFailure(failure));
+  }
+
   settings.customPatterns[patternIndex] = updatedPattern;
   await saveSettings(settings);
 
@@ -546,3 +675,136 @@ export async function incrementCustomPatternCount(
   pattern.updatedAt = Date.now();
   await saveSettings(settings);
 }
+
+/**
+ * Mark custom patterns that ran over their time budget; they are skipped until
+ * their regex is saved again
+ */
+export async function markCustomPatternsTimedOut(patternIds: string[]): Promise<void> {
+  const settings = await getSettings();
+  const patterns = (settings.customPatterns || []).filter(
+    (p) => patternIds.includes(p.id) && !p.timedOut
+  );
+  if (patterns.length === 0) {
+    return;
+  }
+
+  patterns.forEach((pattern) => {
+    pattern.timedOut = true;
+    pattern.updatedAt = Date.now();
+  });
+  await saveSettings(settings);
+}
+
+/**
+ * Get per-pattern counts for all sites
+ */
+export async function getPatternStats(): Promise<PatternStats> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(PATTERN_STATS_KEY, (result) => {
+      resolve((result[PATTERN_STATS_KEY] as PatternStats) || {});
+    });
+  });
+}
+
+/**
+ * Add one paste's per-pattern counts to a site's totals
+ */
+export async function incrementPatternCounts(
+  hostname: string,
+  patternCounts: Record<string, number>
+): Promise<void> {
+  const stats = await getPatternStats();
+  const siteStats = stats[hostname] || {};
+
+  for (const [patternKey, count] of Object.entries(patternCounts)) {
+    siteStats[patternKey] = (siteStats[patternKey] || 0) + count;
+  }
+  stats[hostname] = siteStats;
+
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [PATTERN_STATS_KEY]: stats }, () => {
+      if (chrome.runtime.lastError) {
+        reject(chrome.runtime.lastError);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Generate unique ID for allowlist entry
+ */
+function generateAllowlistId(): string {
+  return `allow_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get all user allowlist entries
+ */
+export async function getAllowlist(): Promise<AllowlistEntry[]> {
+  const settings = await getSettings();
+  return settings.allowlist || [];
+}
+
+/**
+ * Add allowlist entry with validation
+ */
+export async function addAllowlistEntry(
+  entry: Omit<AllowlistEntry, 'id' | 'createdAt'>
+): Promise<AllowlistEntry> {
+  const settings = await getSettings();
+
+  // Initialize allowlist if not exists
+  if (!settings.allowlist) {
+    settings.allowlist = [];
+  }
+
+  if (!entry.value) {
+    throw new Error('Allowlist value is required');
+  }
+
+  // Validate regex entries (throws for invalid syntax and nested quantifiers)
+  if (entry.type === 'regex') {
+    compileWholeValueRegex(entry.value);
+  }
+
+  // Check for duplicate entries
+  const duplicate = settings.allowlist.find(
+    (e) => e.type === entry.type && e.value === entry.value
+  );
+  if (duplicate) {
+    throw new Error(`"${entry.value}" is already in the allowlist`);
+  }
+
+  const newEntry: AllowlistEntry = {
+    ...entry,
+    id: generateAllowlistId(),
+    createdAt: Date.now(),
+  };
+
+  settings.allowlist.push(newEntry);
+  await saveSettings(settings);
+
+  return newEntry;
+}
+
+/**
+ * Delete allowlist entry
+ */
+export async function deleteAllowlistEntry(id: string): Promise<void> {
+  const settings = await getSettings();
+
+  if (!settings.allowlist) {
+    throw new Error('No allowlist entries found');
+  }
+
+  const entryIndex = settings.allowlist.findIndex((e) => e.id === id);
+  if (entryIndex === -1) {
+    throw new Error('Allowlist entry not found');
+  }
+
+  settings.allowlist.splice(entryIndex, 1);
+  await saveSettings(settings);
+}
@@ -0,0 +1,51 @@
+/**
+ * Background scan client for large pastes
+ * Sends the paste to the background worker and shows a progress/cancel toast meanwhile
+ */
+
+import type { DetectionResult } from '@/core/detector';
+import { SCAN_PORT_NAME, type ScanPortMessage, type ScanRequest } from '@/utils/messaging';
+import { showProgressToast } from './toast';
+
+/**
+ * Detect secrets in text in the background worker
+ * @returns Detection results, or null if the user cancelled
+ */
+export function scanInBackground(
+  request: Omit<ScanRequest, 'type'>
+): Promise<DetectionResult | null> {
+  return new Promise((resolve, reject) => {
+    const port = chrome.runtime.connect({ name: SCAN_PORT_NAME });
+    let settled = false;
+
+    // Closing the port tells the background worker to stop scanning
+    const progress = showProgressToast('Scanning large paste…', () =>
+      settle(() => resolve(null))
+    );
+
+    const settle = (settleWith: () => void) => {
+      if (settled) return;
+      settled = true;
+      progress.close();
+      port.disconnect();
+      settleWith();
+    };
+
+    port.onMessage.addListener((message: ScanPortMessage) => {
+      if (message.type === 'progress') {
+        progress.update(message.scanned / message.total);
+      } else if (message.type === 'result') {
+        settle(() => resolve(message.result));
+      } else {
+        settle(() => reject(new Error(message.error)));
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      settle(() => reject(new Error('Background scan was interrupted')));
+    });
+
+    const scanRequest: ScanRequest = { type: 'scan', ...request };
+    port.postMessage(scanRequest);
+  });
+}
@@ -3,7 +3,7 @@
  * Restores masked values to originals when copying
  */
 
-import { restoreFromMasked } from '@/core/detector';
+import { containsMaskedValues, restoreFromMasked } from '@/core/detector';
 
 // Cache for restoration state to avoid async lookups during copy event
 let restorationCache: {
@@ -59,9 +59,8 @@ export function handleCopy(event: ClipboardEvent): void {
     return;
   }
 
-  // Check if selected text contains masked patterns (with or without brackets)
-  // Matches: [AWS_KEY#q3q1] or AWS_KEY#q3q1
-  const hasMaskedPatterns = /\[?[A-Z0-9_-]+#[a-z0-9]{4}\]?/g.test(selectedText);
+  // Check if selected text contains placeholders or synthetic substitutes
+  const hasMaskedPatterns = containsMaskedValues(selectedText, restoreMap);
   if (!hasMaskedPatterns) {
     return; // No masked patterns found, allow normal copy
   }
@@ -100,8 +99,8 @@ function interceptClipboardAPI(): void {
     if (restorationCache.enabled && restorationCache.restoreMap.length > 0) {
       // Check cache age
       if (Date.now() - restorationCache.timestamp <= 3600000) {
-        // Check if text contains masked patterns (with or without brackets)
-        const hasMaskedPatterns = /\[?[A-Z0-9_-]+#[a-z0-9]{4}\]?/g.test(text);
+        // Check if text contains placeholders or synthetic substitutes
+        const hasMaskedPatterns = containsMaskedValues(text, restorationCache.restoreMap);
 
         if (hasMaskedPatterns) {
           // Restore original values
@@ -167,8 +166,8 @@ export function initCopyHandler(): void {
           try {
             const clipboardText = await navigator.clipboard.readText();
 
-            // Check if it contains masked patterns
-            const hasMaskedPatterns = /\[?[A-Z0-9_-]+#[a-z0-9]{4}\]?/g.test(clipboardText);
+            // Check if it contains placeholders or synthetic substitutes
+            const hasMaskedPatterns = containsMaskedValues(clipboardText, restorationCache.restoreMap);
 
             if (hasMaskedPatterns && restorationCache.enabled && restorationCache.restoreMap.length > 0) {
               const restoredText = restoreFromMasked(clipboardText, restorationCache.restoreMap);
@@ -3,11 +3,22 @@
  * Intercepts paste events and applies secret masking
  */
 
-import { maskSecretPatterns, maskWithRestore } from '@/core/detector';
+import {
+  detectSecretPatterns,
+  maskDetectedSecrets,
+  type DetectionOptions,
+  type DetectionResult,
+} from '@/core/detector';
+import { reservePlaceholders } from '@/core/placeholders';
+import type { OversizePastePolicy } from '@/background/storage';
 import { incrementProtectedCount } from './clipboardInterceptor';
-import { showToast } from './toast';
-import { saveRestoreMap } from './restoreManager';
+import { showToast, showNoticeToast } from './toast';
+import { getRestoreMap, mergeRestoreMaps, saveRestoreMap } from './restoreManager';
 import { updateRestorationCache } from './copyHandler';
+import { scanInBackground } from './backgroundScan';
+
+// Pastes above this size are scanned in the background worker instead of the page
+const BACKGROUND_SCAN_THRESHOLD = 128 * 1024;
 
 /**
  * Handle paste event and mask secrets
@@ -25,8 +36,11 @@ export function handlePaste(event: ClipboardEvent): void {
   event.preventDefault();
   event.stopPropagation();
 
-  // Process masking asynchronously
-  processPaste(originalText);
+  // Process masking asynchronously; the default paste is already cancelled, so say why nothing appeared
+  processPaste(originalText).catch((error) => {
+    console.error('[Clip Guard AI] Error masking paste:', error);
+    showNoticeToast('Paste blocked', 'The pasted text could not be masked');
+  });
 }
 
 /**
@@ -36,7 +50,10 @@ async function processPaste(originalText: string): Promise<void> {
   // Get category settings and custom patterns from storage
   let enabledCategories: Record<string, boolean> | undefined;
   let customPatterns: any[] | undefined;
+  let detectionOptions: DetectionOptions = {};
   let enableRestoration = false;
+  let maxPasteSizeKB = 2048;
+  let oversizePastePolicy: OversizePastePolicy = 'block';
 
   try {
     const response = await chrome.runtime.sendMessage({
@@ -52,56 +69,145 @@ async function processPaste(originalText: string): Promise<void> {
       customPatterns = response.data.customPatterns;
     }
 
+    // Get user allowlist if available
+    if (response.success && response.data.allowlist) {
+      detectionOptions = { allowlist: response.data.allowlist };
+    }
+
+    // Get built-in pattern overrides if available
+    if (response.success && response.data.patternOverrides) {
+      detectionOptions = {
+        ...detectionOptions,
+        patternOverrides: response.data.patternOverrides,
+      };
+    }
+
+    // Get masking mode (placeholders or synthetic substitutes)
+    if (response.success && response.data.maskingMode) {
+      detectionOptions = { ...detectionOptions, maskingMode: response.data.maskingMode };
+    }
+
+    // Get per-category masking strategies if available
+    if (response.success && response.data.maskingStrategies) {
+      detectionOptions = {
+        ...detectionOptions,
+        categoryStrategies: response.data.maskingStrategies,
+      };
+    }
+
+    // Get placeholder ID length if available
+    if (response.success && response.data.placeholderIdLength) {
+      detectionOptions = {
+        ...detectionOptions,
+        placeholderIdLength: response.data.placeholderIdLength,
+      };
+    }
+
     // Check if restoration is enabled
     if (response.success && response.data.enableRestoration) {
       enableRestoration = true;
     }
+
+    // Get paste size cap if available
+    if (response.success && response.data.maxPasteSizeKB) {
+      maxPasteSizeKB = response.data.maxPasteSizeKB;
+      oversizePastePolicy = response.data.oversizePastePolicy || oversizePastePolicy;
+    }
   } catch (error) {
     console.error('[Clip Guard AI] Error getting settings:', error);
     // Continue with default behavior (all categories enabled)
   }
 
-  // Apply masking with restoration support if enabled
-  let maskedText: string;
-  let replacements: number;
-  let categoryCounts: Record<string, number>;
-  let customPatternCounts: Record<string, number> | undefined;
+  // Apply the paste size cap
+  let text = originalText;
+  const sizeKB = Math.ceil(originalText.length / 1024);
+  if (sizeKB > maxPasteSizeKB && oversizePastePolicy !== 'allow') {
+    if (oversizePastePolicy === 'block') {
+      showNoticeToast('Paste blocked', `${sizeKB} KB is over the ${maxPasteSizeKB} KB paste limit`);
+      return;
+    }
 
-  if (enableRestoration) {
-    // Use maskWithRestore to enable restoration on copy
-    const restoreResult = maskWithRestore(originalText, enabledCategories, customPatterns);
-    maskedText = restoreResult.masked;
-    replacements = restoreResult.replacements;
+    text = truncateAtLineBreak(originalText, maxPasteSizeKB * 1024);
+    showNoticeToast('Paste truncated', `Only the first ${maxPasteSizeKB} KB of ${sizeKB} KB was pasted`);
+  }
 
-    // Save restore map to session storage
-    if (restoreResult.restoreMap.length > 0) {
-      await saveRestoreMap(restoreResult.restoreMap);
+  // Detect in the background worker for large pastes, right here for small ones
+  let results: DetectionResult | null;
 
-      // Update in-memory cache for copy handler (synchronous access)
-      updateRestorationCache(true, restoreResult.restoreMap);
+  if (text.length > BACKGROUND_SCAN_THRESHOLD) {
+    try {
+      results = await scanInBackground({
+        text,
+        enabledCategories,
+        customPatterns,
+        detectionOptions,
+      });
+    } catch (error) {
+      // Never fall back to pasting unscanned text
+      console.error('[Clip Guard AI] Error scanning large paste:', error);
+      showNoticeToast('Paste blocked', 'The pasted text could not be scanned');
+      return;
     }
 
-    // Calculate category counts from restore map
-    categoryCounts = {};
-    restoreResult.restoreMap.forEach((entry) => {
-      const category = entry.type.split('_')[0]; // Extract category from type
-      categoryCounts[category] = (categoryCounts[category] || 0) + 1;
-    });
+    if (!results) {
+      showNoticeToast('Paste cancelled', 'Nothing was pasted');
+      return;
+    }
   } else {
-    // Use regular masking without restoration
-    const result = maskSecretPatterns(originalText, enabledCategories, customPatterns);
-    maskedText = result.masked;
-    replacements = result.replacements;
-    categoryCounts = result.categoryCounts;
-    customPatternCounts = result.customPatternCounts;
+    results = detectSecretPatterns(text, enabledCategories, customPatterns, detectionOptions);
+  }
+
+  // Patterns that ran over their time budget stay off until edited; Settings shows them
+  if (results.timedOut.length > 0) {
+    chrome.runtime
+      .sendMessage({ type: 'MARK_PATTERNS_TIMED_OUT', data: { patternIds: results.timedOut } })
+      .catch((error) => {
+        console.error('[Clip Guard AI] Error reporting timed-out patterns:', error);
+      });
+  }
+
+  // New placeholders must not repeat ones already in the vault (this site's restore map)
+  const vault = enableRestoration ? await getRestoreMap() : [];
+  reservePlaceholders(vault);
+
+  // Masking always happens here, so placeholders stay stable across pastes in this page
+  const maskResult = maskDetectedSecrets(text, results, detectionOptions);
+  const {
+    masked: maskedText,
+    replacements,
+    warnings,
+    suppressed,
+    categoryCounts,
+    patternCounts,
+    customPatternCounts,
+  } = maskResult;
+
+  if (enableRestoration) {
+    // Add to the vault; earlier pastes' placeholders, including ones pasted again as-is, stay restorable
+    const restoreMap = mergeRestoreMaps(vault, maskResult.restoreMap);
+    if (maskResult.restoreMap.length > 0) {
+      await saveRestoreMap(restoreMap);
+    }
 
+    // Update in-memory cache for copy handler (synchronous access)
+    if (restoreMap.length > 0) {
+      updateRestorationCache(true, restoreMap);
+    }
+  } else {
     // Clear restoration cache when disabled
     updateRestorationCache(false, []);
   }
 
   // If no secrets detected, insert original text
   if (replacements === 0) {
-    insertMaskedText(originalText);
+    insertMaskedText(text);
+    if (warnings > 0) {
+      console.log(`[Clip Guard AI] ${warnings} low-confidence match(es) left unmasked`);
+    }
+    // Confirm that markers were honored rather than pasting silently
+    if (suppressed > 0) {
+      showToast(0, warnings, suppressed);
+    }
     return;
   }
 
@@ -125,7 +231,7 @@ async function processPaste(originalText: string): Promise<void> {
   }
 
   // Increment category-specific counts
-  if (categoryCounts && Object.keys(categoryCounts).length > 0) {
+  if (Object.keys(categoryCounts).length > 0) {
     try {
       await chrome.runtime.sendMessage({
         type: 'INCREMENT_CATEGORY_COUNTS',
@@ -136,8 +242,20 @@ async function processPaste(originalText: string): Promise<void> {
     }
   }
 
+  // Increment per-pattern counts for this site
+  if (Object.keys(patternCounts).length > 0) {
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'INCREMENT_PATTERN_COUNTS',
+        data: { hostname, patternCounts },
+      });
+    } catch (error) {
+      console.error('[Clip Guard AI] Error incrementing pattern counts:', error);
+    }
+  }
+
   // Increment custom pattern counts
-  if (customPatternCounts && Object.keys(customPatternCounts).length > 0) {
+  if (Object.keys(customPatternCounts).length > 0) {
     try {
       // Send each custom pattern count separately
       for (const [patternId, count] of Object.entries(customPatternCounts)) {
@@ -152,12 +270,21 @@ async function processPaste(originalText: string): Promise<void> {
   }
 
   // Show toast notification
-  showToast(replacements);
+  showToast(replacements, warnings, suppressed);
 
   // Log detection (optional, for debugging)
   console.log(`[Clip Guard AI] Masked ${replacements} secret(s) on ${hostname}`, categoryCounts);
 }
 
+/**
+ * Cut text to at most maxLength characters, at the last line break when there is one
+ * in the second half, so a secret isn't split into an undetectable fragment
+ */
+function truncateAtLineBreak(text: string, maxLength: number): string {
+  const lineBreak = text.lastIndexOf('\n', maxLength - 1);
+  return text.substring(0, lineBreak >= maxLength / 2 ? lineBreak + 1 : maxLength);
+}
+
 /**
  * Insert masked text at cursor position
  */
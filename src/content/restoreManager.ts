@@ -30,6 +30,21 @@ export async function saveRestoreMap(restoreMap: RestoreMapEntry[]): Promise<voi
   }
 }
 
+/**
+ * Merge a paste's restore map into the existing one
+ * A repeated secret has the same placeholder, so it is kept once; on a clash the newer entry wins
+ */
+export function mergeRestoreMaps(
+  existing: RestoreMapEntry[],
+  added: RestoreMapEntry[]
+): RestoreMapEntry[] {
+  const byReplacement = new Map<string, RestoreMapEntry>();
+  [...existing, ...added].forEach((entry) => {
+    byReplacement.set(entry.numberedReplacement, entry);
+  });
+  return Array.from(byReplacement.values());
+}
+
 /**
  * Get restore map from session storage
  */
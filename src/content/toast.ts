@@ -32,12 +32,42 @@ function initToastContainer(): HTMLDivElement {
 }
 
 /**
- * Show toast notification
+ * Add animation keyframes once per page
  */
-export function showToast(secretsCount: number): void {
-  const container = initToastContainer();
+function ensureToastStyles(): void {
+  if (document.getElementById('clip-guard-toast-styles')) return;
 
-  // Create toast element
+  const style = document.createElement('style');
+  style.id = 'clip-guard-toast-styles';
+  style.textContent = `
+    @keyframes slideIn {
+      from {
+        transform: translateX(400px);
+        opacity: 0;
+      }
+      to {
+        transform: translateX(0);
+        opacity: 1;
+      }
+    }
+    @keyframes slideOut {
+      from {
+        transform: translateX(0);
+        opacity: 1;
+      }
+      to {
+        transform: translateX(400px);
+        opacity: 0;
+      }
+    }
+  `;
+  document.head.appendChild(style);
+}
+
+/**
+ * Create an empty toast card
+ */
+function createToastElement(): HTMLDivElement {
   const toast = document.createElement('div');
   toast.style.cssText = `
     background: #262626;
@@ -53,35 +83,54 @@ export function showToast(secretsCount: number): void {
     pointer-events: auto;
     animation: slideIn 0.3s ease-out;
   `;
+  return toast;
+}
 
-  // Add animation keyframes
-  if (!document.getElementById('clip-guard-toast-styles')) {
-    const style = document.createElement('style');
-    style.id = 'clip-guard-toast-styles';
-    style.textContent = `
-      @keyframes slideIn {
-        from {
-          transform: translateX(400px);
-          opacity: 0;
-        }
-        to {
-          transform: translateX(0);
-          opacity: 1;
-        }
-      }
-      @keyframes slideOut {
-        from {
-          transform: translateX(0);
-          opacity: 1;
-        }
-        to {
-          transform: translateX(400px);
-          opacity: 0;
-        }
-      }
-    `;
-    document.head.appendChild(style);
-  }
+/**
+ * Create the toast close (×) button
+ */
+function createCloseButton(onClick: () => void): HTMLButtonElement {
+  const closeBtn = document.createElement('button');
+  closeBtn.innerHTML = `
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#737373" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+      <path d="M18 6 6 18"/>
+      <path d="m6 6 12 12"/>
+    </svg>
+  `;
+  closeBtn.style.cssText = `
+    background: none;
+    border: none;
+    padding: 4px;
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    flex-shrink: 0;
+    opacity: 0.5;
+    transition: opacity 0.2s;
+  `;
+  closeBtn.onmouseenter = () => (closeBtn.style.opacity = '1');
+  closeBtn.onmouseleave = () => (closeBtn.style.opacity = '0.5');
+  closeBtn.onclick = onClick;
+  return closeBtn;
+}
+
+/**
+ * Show toast notification
+ * @param secretsCount - Number of masked secrets
+ * @param warningsCount - Number of low-confidence matches left unmasked
+ * @param suppressedCount - Number of matches skipped because of clipguard markers
+ */
+export function showToast(
+  secretsCount: number,
+  warningsCount: number = 0,
+  suppressedCount: number = 0
+): void {
+  const container = initToastContainer();
+  ensureToastStyles();
+
+  // Create toast element
+  const toast = createToastElement();
 
   // Icon (shield check)
   const icon = document.createElement('div');
@@ -115,7 +164,7 @@ export function showToast(secretsCount: number): void {
 
   // Create count span with accent color
   const countSpan = document.createElement('span');
-  countSpan.textContent = `${secretsCount} secret${secretsCount > 1 ? 's' : ''}`;
+  countSpan.textContent = `${secretsCount} secret${secretsCount !== 1 ? 's' : ''}`;
   countSpan.style.cssText = `
     color: #22C55E;
     font-weight: 600;
@@ -124,8 +173,17 @@ export function showToast(secretsCount: number): void {
   title.appendChild(countSpan);
   title.appendChild(document.createTextNode(' protected'));
 
+  const notes: string[] = [];
+  if (warningsCount > 0) {
+    notes.push(`${warningsCount} possible secret${warningsCount > 1 ? 's' : ''} left unmasked`);
+  }
+  if (suppressedCount > 0) {
+    notes.push(`${suppressedCount} suppressed by clipguard markers`);
+  }
+
   const description = document.createElement('div');
-  description.textContent = 'Sensitive data masked automatically';
+  description.textContent =
+    notes.length > 0 ? notes.join(' • ') : 'Sensitive data masked automatically';
   description.style.cssText = `
     color: #A3A3A3;
     font-size: 12px;
@@ -135,43 +193,165 @@ export function showToast(secretsCount: number): void {
   content.appendChild(description);
 
   // Close button
-  const closeBtn = document.createElement('button');
-  closeBtn.innerHTML = `
-    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#737373" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-      <path d="M18 6 6 18"/>
-      <path d="m6 6 12 12"/>
+  const closeBtn = createCloseButton(() => removeToast(toast));
+
+  // Assemble toast
+  toast.appendChild(icon);
+  toast.appendChild(content);
+  toast.appendChild(closeBtn);
+
+  container.appendChild(toast);
+  activeToasts.add(toast);
+
+  // Auto-remove after 4 seconds
+  setTimeout(() => {
+    if (activeToasts.has(toast)) {
+      removeToast(toast);
+    }
+  }, 4000);
+}
+
+/**
+ * Create a title + description block for notice and progress toasts
+ */
+function createToastContent(titleText: string, descriptionText: string) {
+  const content = document.createElement('div');
+  content.style.cssText = `
+    flex: 1;
+    min-width: 0;
+  `;
+
+  const title = document.createElement('div');
+  title.textContent = titleText;
+  title.style.cssText = `
+    color: #FAFAFA;
+    font-size: 14px;
+    font-weight: 500;
+    margin-bottom: 2px;
+  `;
+
+  const description = document.createElement('div');
+  description.textContent = descriptionText;
+  description.style.cssText = `
+    color: #A3A3A3;
+    font-size: 12px;
+  `;
+
+  content.appendChild(title);
+  content.appendChild(description);
+  return { content, description };
+}
+
+/**
+ * Show a warning toast for pastes that were blocked, truncated or cancelled
+ */
+export function showNoticeToast(titleText: string, descriptionText: string): void {
+  const container = initToastContainer();
+  ensureToastStyles();
+
+  const toast = createToastElement();
+
+  // Icon (alert triangle)
+  const icon = document.createElement('div');
+  icon.innerHTML = `
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#F59E0B" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+      <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"/>
+      <path d="M12 9v4"/>
+      <path d="M12 17h.01"/>
     </svg>
   `;
-  closeBtn.style.cssText = `
-    background: none;
-    border: none;
-    padding: 4px;
-    cursor: pointer;
+  icon.style.cssText = `
     display: flex;
     align-items: center;
     justify-content: center;
     flex-shrink: 0;
-    opacity: 0.5;
-    transition: opacity 0.2s;
   `;
-  closeBtn.onmouseenter = () => (closeBtn.style.opacity = '1');
-  closeBtn.onmouseleave = () => (closeBtn.style.opacity = '0.5');
-  closeBtn.onclick = () => removeToast(toast);
 
-  // Assemble toast
+  const { content } = createToastContent(titleText, descriptionText);
+
   toast.appendChild(icon);
   toast.appendChild(content);
-  toast.appendChild(closeBtn);
+  toast.appendChild(createCloseButton(() => removeToast(toast)));
 
   container.appendChild(toast);
   activeToasts.add(toast);
 
-  // Auto-remove after 4 seconds
+  // Auto-remove after 6 seconds (longer than the success toast: something went unpasted)
   setTimeout(() => {
     if (activeToasts.has(toast)) {
       removeToast(toast);
     }
-  }, 4000);
+  }, 6000);
+}
+
+/**
+ * Handle for a progress toast
+ */
+export interface ProgressToast {
+  update: (fraction: number) => void;
+  close: () => void;
+}
+
+/**
+ * Show a toast with a progress bar and a Cancel button
+ * Stays until closed; onCancel runs when the user cancels
+ */
+export function showProgressToast(titleText: string, onCancel: () => void): ProgressToast {
+  const container = initToastContainer();
+  ensureToastStyles();
+
+  const toast = createToastElement();
+  const { content, description } = createToastContent(titleText, '0%');
+
+  const track = document.createElement('div');
+  track.style.cssText = `
+    height: 4px;
+    margin-top: 8px;
+    border-radius: 2px;
+    background: #333333;
+    overflow: hidden;
+  `;
+  const bar = document.createElement('div');
+  bar.style.cssText = `
+    height: 100%;
+    width: 0%;
+    background: #22C55E;
+    transition: width 0.2s;
+  `;
+  track.appendChild(bar);
+  content.appendChild(track);
+
+  const cancelBtn = document.createElement('button');
+  cancelBtn.textContent = 'Cancel';
+  cancelBtn.style.cssText = `
+    background: none;
+    border: 1px solid #333333;
+    border-radius: 6px;
+    padding: 4px 10px;
+    color: #FAFAFA;
+    font-size: 12px;
+    cursor: pointer;
+    flex-shrink: 0;
+  `;
+  cancelBtn.onclick = () => {
+    removeToast(toast);
+    onCancel();
+  };
+
+  toast.appendChild(content);
+  toast.appendChild(cancelBtn);
+
+  container.appendChild(toast);
+  activeToasts.add(toast);
+
+  return {
+    update: (fraction) => {
+      const percent = Math.round(Math.min(Math.max(fraction, 0), 1) * 100);
+      bar.style.width = `${percent}%`;
+      description.textContent = `${percent}%`;
+    },
+    close: () => removeToast(toast),
+  };
 }
 
 /**
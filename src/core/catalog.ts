@@ -0,0 +1,119 @@
+/**
+ * Pattern catalog for the settings page
+ * Built from the detectors themselves: every pattern and scanner carries its own
+ * description, example and masked form, so a new pattern shows up without touching the UI
+ */
+
+import type { CustomPattern, PatternCategory } from '@/types/patterns';
+import { SECRET_PATTERNS, SECRET_SCANNERS } from './detector';
+
+/**
+ * One detector as listed in settings
+ */
+export interface CatalogPattern {
+  key: string; // Detector key (SECRET_PATTERNS / scanner key or custom pattern ID)
+  name: string;
+  description: string;
+  maskedAs: string;
+  example?: string; // Masked live in settings
+  custom?: boolean; // User-defined; edited in the custom pattern manager, not by overrides
+  enabled?: boolean; // Custom patterns only
+}
+
+/**
+ * Category card with its detectors
+ */
+export interface CatalogCategory {
+  name: PatternCategory;
+  label: string;
+  description: string;
+  patterns: CatalogPattern[];
+}
+
+// Category titles, in display order
+export const CATEGORY_DETAILS: Record<PatternCategory, { label: string; description: string }> = {
+  cloud_keys: {
+    label: 'Cloud Provider Keys',
+    description: 'AWS, Google Cloud, Azure credentials and access keys',
+  },
+  api_tokens: {
+    label: 'API Tokens',
+    description: 'Service tokens and webhooks: GitHub, GitLab, npm, PyPI, OpenAI, Stripe, Slack, ...',
+  },
+  private_keys: {
+    label: 'Private Keys & Certificates',
+    description: 'RSA, EC, SSH, PGP private keys and certificates',
+  },
+  passwords: {
+    label: 'Passwords & Authentication',
+    description: 'Password fields, environment variables, config files, CLI authentication',
+  },
+  database: {
+    label: 'Database Connections',
+    description: 'Database URLs, JDBC connections, connection strings',
+  },
+  network: {
+    label: 'Network & Endpoints (Optional)',
+    description: 'IP addresses, URLs, domains, API endpoints',
+  },
+  pii: {
+    label: 'Personal Information (Optional)',
+    description: 'Email addresses and other personally identifiable information',
+  },
+  kubernetes: {
+    label: 'Kubernetes',
+    description: 'Secret manifests, kubeconfig credentials and Helm values',
+  },
+  high_entropy: {
+    label: 'High-Entropy Strings',
+    description: 'Random-looking tokens without a known prefix (generic API keys, secrets)',
+  },
+  encoded: {
+    label: 'Encoded Secrets',
+    description: 'Secrets hidden in base64, URL-encoded or escaped text',
+  },
+  custom: {
+    label: 'Custom Patterns',
+    description: 'Patterns you added for your own secrets',
+  },
+};
+
+/**
+ * Every category with its built-in patterns, scanners and the user's custom patterns
+ */
+export function getPatternCatalog(customPatterns: CustomPattern[] = []): CatalogCategory[] {
+  const entries: (CatalogPattern & { category: PatternCategory })[] = [
+    ...Object.entries(SECRET_PATTERNS).map(([key, pattern]) => ({
+      key,
+      category: pattern.category,
+      name: pattern.name,
+      description: pattern.description || '',
+      maskedAs:
+        pattern.maskedAs ?? (typeof pattern.replacement === 'string' ? pattern.replacement : ''),
+      example: pattern.example,
+    })),
+    ...Object.entries(SECRET_SCANNERS).map(([key, scanner]) => ({
+      key,
+      category: scanner.category,
+      name: scanner.name,
+      description: scanner.description || '',
+      maskedAs: scanner.maskedAs || '',
+      example: scanner.example,
+    })),
+    ...customPatterns.map((pattern) => ({
+      key: pattern.id,
+      category: pattern.category,
+      name: pattern.name,
+      description: `/${pattern.regex}/${pattern.flags || ''}`,
+      maskedAs: pattern.replacement,
+      custom: true,
+      enabled: pattern.enabled,
+    })),
+  ];
+
+  return (Object.keys(CATEGORY_DETAILS) as PatternCategory[]).map((name) => ({
+    name,
+    ...CATEGORY_DETAILS[name],
+    patterns: entries.filter((entry) => entry.category === name),
+  }));
+}
@@ -0,0 +1,180 @@
+/**
+ * Chunked detection for large pastes
+ * Scans line-aligned chunks with overlapping margins, so secrets and key names that
+ * straddle a boundary are seen whole, and yields between chunks for progress/cancel
+ * Document scanners (manifests, config files) run once over the whole text instead
+ */
+
+import type { CustomPattern, PatternMatch, PatternOverrides } from '@/types/patterns';
+import {
+  detectSecretPatterns,
+  SECRET_PATTERNS,
+  SECRET_SCANNERS,
+  type DetectionOptions,
+  type DetectionResult,
+} from './detector';
+import { findSuppressedRanges, type SuppressedRange } from './suppression';
+import { overlapsInterval, insertInterval, type Interval } from './engine';
+
+export const CHUNK_SIZE = 128 * 1024;
+export const CHUNK_OVERLAP = 4 * 1024; // Longer than any single secret or key/value line we detect
+
+/**
+ * Callbacks for a chunked scan
+ */
+export interface ChunkedScanHooks {
+  onProgress?: (scanned: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * End of the chunk starting at start: the next line break after CHUNK_SIZE
+ * characters, or a hard cut when no line break is near
+ */
+function chunkEnd(text: string, start: number): number {
+  const target = start + CHUNK_SIZE;
+  if (target >= text.length) return text.length;
+
+  const lineBreak = text.indexOf('\n', target);
+  return lineBreak !== -1 && lineBreak - target < CHUNK_OVERLAP ? lineBreak + 1 : target;
+}
+
+/**
+ * Suppressed ranges clipped to [start, end) and shifted to window coordinates
+ */
+function rangesForChunk(
+  ranges: SuppressedRange[],
+  start: number,
+  end: number,
+  windowStart: number
+): SuppressedRange[] {
+  return ranges
+    .map((range) => ({
+      start: Math.max(range.start, start) - windowStart,
+      end: Math.min(range.end, end - 1) - windowStart,
+    }))
+    .filter((range) => range.start <= range.end);
+}
+
+/**
+ * Priority a match's detector runs at (lower claims overlapping text first)
+ */
+function getPriority(
+  key: string,
+  customPatterns: CustomPattern[] | undefined,
+  overrides: PatternOverrides
+): number {
+  const detector = SECRET_PATTERNS[key] ?? SECRET_SCANNERS[key];
+  if (detector) {
+    return overrides[key]?.priority ?? (detector.priority || 0);
+  }
+  return customPatterns?.find((pattern) => pattern.id === key)?.priority || 0;
+}
+
+/**
+ * Let pending messages (e.g. a cancel) run between chunks
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Detect secrets in large text chunk by chunk
+ * Each chunk keeps the matches that start inside it; the margins only provide context
+ * Document scanner matches are merged in by priority, as a single scan resolves overlaps
+ * @returns Detection results, or null if the scan was cancelled
+ */
+export async function detectInChunks(
+  text: string,
+  enabledCategories?: Record<string, boolean>,
+  customPatterns?: CustomPattern[],
+  options?: DetectionOptions,
+  hooks: ChunkedScanHooks = {}
+): Promise<DetectionResult | null> {
+  // Markers are resolved over the whole text so disable/enable blocks can span chunks
+  const suppressedRanges = findSuppressedRanges(text);
+  const matches: PatternMatch[] = [];
+  const claimedRanges: Interval[] = [];
+  const timedOut = new Set<string>();
+  let suppressed = 0;
+  let start = 0;
+
+  // A chunk may start after the header that decides a document's format (kind: Secret,
+  // data:), so document scanners see the whole text, and only they do
+  const overrides = options?.patternOverrides || {};
+  const documentOverrides: PatternOverrides = { ...overrides };
+  const chunkOverrides: PatternOverrides = { ...overrides };
+  [...Object.keys(SECRET_PATTERNS), ...Object.keys(SECRET_SCANNERS)].forEach((key) => {
+    if (SECRET_SCANNERS[key]?.document) {
+      chunkOverrides[key] = { ...overrides[key], enabled: false };
+    } else {
+      documentOverrides[key] = { ...overrides[key], enabled: false };
+    }
+  });
+
+  const documentResult = detectSecretPatterns(text, enabledCategories, [], {
+    ...options,
+    patternOverrides: documentOverrides,
+    suppressedRanges,
+  });
+  suppressed += documentResult.suppressed;
+
+  while (start < text.length) {
+    if (hooks.isCancelled?.()) return null;
+
+    const end = chunkEnd(text, start);
+    const windowStart = Math.max(0, start - CHUNK_OVERLAP);
+    const windowEnd = Math.min(text.length, end + CHUNK_OVERLAP);
+
+    // Only the chunk's own region is suppressed, so margin matches aren't counted twice
+    const result = detectSecretPatterns(
+      text.slice(windowStart, windowEnd),
+      enabledCategories,
+      customPatterns,
+      {
+        ...options,
+        patternOverrides: chunkOverrides,
+        suppressedRanges: rangesForChunk(suppressedRanges, start, end, windowStart),
+      }
+    );
+    suppressed += result.suppressed;
+    result.timedOut.forEach((id) => timedOut.add(id));
+
+    result.matches.forEach((match) => {
+      const index = match.index + windowStart;
+      if (index < start || index >= end) return; // Owned by a neighbouring chunk
+
+      const matchEnd = index + match.value.length;
+      if (overlapsInterval(claimedRanges, index, matchEnd)) return;
+
+      insertInterval(claimedRanges, index, matchEnd);
+      matches.push({ ...match, index });
+    });
+
+    hooks.onProgress?.(end, text.length);
+    start = end;
+    await yieldToEventLoop();
+  }
+
+  // Claim text in priority order (the sort is stable, so ties keep text order)
+  const merged: PatternMatch[] = [];
+  const mergedRanges: Interval[] = [];
+  [...matches, ...documentResult.matches]
+    .map((match) => ({ match, priority: getPriority(match.patternKey, customPatterns, overrides) }))
+    .sort((a, b) => a.priority - b.priority)
+    .forEach(({ match }) => {
+      const matchEnd = match.index + match.value.length;
+      if (overlapsInterval(mergedRanges, match.index, matchEnd)) return;
+
+      insertInterval(mergedRanges, match.index, matchEnd);
+      merged.push(match);
+    });
+  merged.sort((a, b) => a.index - b.index);
+
+  return {
+    matches: merged,
+    count: merged.length,
+    suppressed,
+    timedOut: [...timedOut],
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Context engine - scores matches by the key names around them
+ * e.g. api_key: "a8f3...", client_secret = ..., "token": "..."
+ */
+
+import type { Severity } from '@/types/patterns';
+
+export type KeySensitivity = 'sensitive' | 'benign' | 'neutral';
+
+export type ConfidenceLevel = 'mask' | 'warn' | 'ignore';
+
+/**
+ * Confidence thresholds: >= MASK is replaced, >= WARN is reported only
+ */
+export const MASK_THRESHOLD = 0.5;
+export const WARN_THRESHOLD = 0.3;
+
+/**
+ * Default confidence for regex matches that carry no score of their own
+ */
+export const BASE_CONFIDENCE: Record<Severity, number> = {
+  high: 0.9,
+  medium: 0.8,
+  low: 0.7,
+};
+
+const SENSITIVE_BOOST = 0.35;
+// Only lowers generic detectors; known formats keep their base confidence (see runDetectors)
+const BENIGN_PENALTY = -0.5;
+const NEARBY_KEYWORD_BOOST = 0.15;
+
+// How far before a match to look for a key or keyword (same line only)
+const CONTEXT_WINDOW = 80;
+
+// Key name parts that mark the value as a secret
+const SENSITIVE_PARTS = new Set([
+  'secret',
+  'secrets',
+  'token',
+  'tokens',
+  'password',
+  'passwd',
+  'pwd',
+  'pass',
+  'passphrase',
+  'apikey',
+  'auth',
+  'authorization',
+  'credential',
+  'credentials',
+  'privatekey',
+  'cookie',
+]);
+
+// Adjacent part pairs that mark the value as a secret (api_key, private-key, ...)
+const SENSITIVE_PAIRS = new Set([
+  'api:key',
+  'private:key',
+  'access:key',
+  'secret:key',
+  'signing:key',
+  'encryption:key',
+  'master:key',
+  'session:key',
+  'client:secret',
+]);
+
+// Substrings every sensitive key name contains (keyword prefilter of the config scanner)
+export const SENSITIVE_KEY_KEYWORDS = [
+  'secret',
+  'token',
+  'pass',
+  'pwd',
+  'auth',
+  'credential',
+  'cookie',
+  'key',
+];
+
+// Key name parts that mark the value as non-secret data
+const BENIGN_PARTS = new Set([
+  'hash',
+  'sha',
+  'sha1',
+  'sha256',
+  'sha512',
+  'md5',
+  'checksum',
+  'digest',
+  'integrity',
+  'commit',
+  'revision',
+  'etag',
+  'uuid',
+  'guid',
+  'version',
+  'example',
+  'sample',
+  'dummy',
+  'placeholder',
+]);
+
+// Last key parts that describe metadata about a secret, not the secret itself
+const BENIGN_SUFFIXES = new Set([
+  'url',
+  'uri',
+  'endpoint',
+  'path',
+  'file',
+  'type',
+  'method',
+  'mode',
+  'enabled',
+  'length',
+  'ttl',
+  'timeout',
+  'expiry',
+  'expires',
+  'header',
+  'name',
+  'count',
+  'size',
+  'format',
+  'policy',
+]);
+
+// Keywords that raise confidence when they appear near a match without a direct key
+const NEARBY_KEYWORD_REGEX = /secret|token|api[_-]?key|auth|credential|passw(?:or)?d/i;
+
+// key = "…", "key": "…", key: …, export KEY=…, key := …, key => …
+const ASSIGNMENT_REGEX =
+  /(?:^|[\s{,(;])(?:export\s+|set\s+|const\s+|let\s+|var\s+)?(["'`]?)([A-Za-z_$][\w.$-]*)\1\s*(?::=|=>|==|=|:)\s*(?:["'`]|[A-Za-z]+\s+)?$/;
+
+/**
+ * Split a key name into lowercase parts (snake_case, kebab-case, dot.path, camelCase)
+ */
+export function splitKeyName(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Classify a key name by whether its value is likely a secret
+ */
+export function classifyKeyName(key: string): KeySensitivity {
+  const parts = splitKeyName(key);
+  if (parts.length === 0) return 'neutral';
+
+  if (parts.some((part) => BENIGN_PARTS.has(part))) return 'benign';
+
+  const sensitive =
+    parts.some((part) => SENSITIVE_PARTS.has(part)) ||
+    parts.some((part, i) => i > 0 && SENSITIVE_PAIRS.has(`${parts[i - 1]}:${part}`)) ||
+    // Joined forms like "apikey" or "privatekey" split by camelCase (apiKey → api_key)
+    SENSITIVE_PARTS.has(parts.join(''));
+
+  if (!sensitive) return 'neutral';
+
+  return BENIGN_SUFFIXES.has(parts[parts.length - 1]) ? 'benign' : 'sensitive';
+}
+
+/**
+ * Find the key a value is assigned to (e.g. `client_secret` in `client_secret = "…"`)
+ */
+export function findContextKey(text: string, start: number): string | undefined {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const windowStart = Math.max(lineStart, start - CONTEXT_WINDOW);
+  const before = text.substring(windowStart, start);
+
+  const match = before.match(ASSIGNMENT_REGEX);
+  return match ? match[2] : undefined;
+}
+
+/**
+ * Score the context around a match
+ * @returns Confidence adjustment and the assignment key if one was found
+ */
+export function scoreContext(
+  text: string,
+  start: number
+): { adjustment: number; key?: string } {
+  const key = findContextKey(text, start);
+
+  if (key) {
+    const sensitivity = classifyKeyName(key);
+    if (sensitivity === 'sensitive') return { adjustment: SENSITIVE_BOOST, key };
+    if (sensitivity === 'benign') return { adjustment: BENIGN_PENALTY, key };
+    return { adjustment: 0, key };
+  }
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const before = text.substring(Math.max(lineStart, start - CONTEXT_WINDOW), start);
+  if (NEARBY_KEYWORD_REGEX.test(before)) {
+    return { adjustment: NEARBY_KEYWORD_BOOST };
+  }
+
+  return { adjustment: 0 };
+}
+
+/**
+ * Apply context scoring to a base confidence (clamped to 0-1)
+ */
+export function applyContext(
+  text: string,
+  start: number,
+  baseConfidence: number
+): { confidence: number; key?: string } {
+  const { adjustment, key } = scoreContext(text, start);
+  const confidence = Math.min(1, Math.max(0, baseConfidence + adjustment));
+  return { confidence: Math.round(confidence * 100) / 100, key };
+}
+
+/**
+ * Decide what to do with a match of the given confidence
+ */
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= MASK_THRESHOLD) return 'mask';
+  if (confidence >= WARN_THRESHOLD) return 'warn';
+  return 'ignore';
+}
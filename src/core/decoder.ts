@@ -0,0 +1,168 @@
+/**
+ * Decode-and-rescan detection for encoded secrets
+ * Base64, percent-encoded and backslash-escaped spans are decoded and run through
+ * the detector set again; a hit masks the whole encoded span in the original
+ */
+
+import type { ScanContext, ScannerMatch } from '@/types/patterns';
+import { getConfidenceLevel } from './context';
+import { findTokens, type Token } from './entropy';
+
+export type Encoding = 'base64' | 'url' | 'escaped';
+
+/**
+ * Encoded span located in the source text with its decoded content
+ */
+export interface EncodedSpan {
+  value: string;
+  index: number;
+  decoded: string;
+  encoding: Encoding;
+}
+
+// Nested encodings (e.g. base64 inside an escaped JSON string) are followed this deep
+export const MAX_DECODE_DEPTH = 2;
+
+// Longer spans are skipped rather than decoded and rescanned
+const MAX_SPAN_LENGTH = 16 * 1024;
+
+// Spans rescanned per text, so a huge paste can't trigger unbounded rescans
+const MAX_SPANS = 64;
+
+// Share of decoded characters that must be printable (binary blobs are skipped)
+const MIN_PRINTABLE_RATIO = 0.95;
+
+// Percent-encoded values, bounded by whitespace, quotes and query separators
+// (anchored at value starts so long tokens without "%" aren't rescanned per character)
+const URL_ENCODED_REGEX =
+  /(?<![^\s"'`&=?#()<>])[^\s"'`&=?#()<>%]*%[0-9A-Fa-f]{2}[^\s"'`&=?#()<>]*/g;
+
+// JSON string literals containing at least one escape sequence
+const ESCAPED_STRING_REGEX = /"((?:[^"\\\n]|\\.)*\\[nrtbf"\\/u](?:[^"\\\n]|\\.)*)"/g;
+
+/**
+ * Check if decoded text is readable (not binary data)
+ */
+function isPrintable(decoded: string): boolean {
+  if (!decoded) return false;
+  const printable = decoded.match(/[\x20-\x7e\t\n\r]/g) || [];
+  return printable.length / decoded.length >= MIN_PRINTABLE_RATIO;
+}
+
+/**
+ * Decode base64 or base64url, null if malformed
+ */
+function decodeBase64(value: string): string | null {
+  const normalized = value.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+  if (normalized.length % 4 === 1) return null;
+
+  try {
+    return atob(normalized + '='.repeat((4 - (normalized.length % 4)) % 4));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode percent-encoding ("+" as space), null if malformed
+ */
+function decodeUrl(value: string): string | null {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode JSON string escapes (\n, \", \u00e9, ...), null if malformed
+ */
+function decodeEscaped(value: string): string | null {
+  try {
+    return JSON.parse(`"${value}"`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep spans whose decoded form is readable and differs from the original
+ */
+function decodeSpans(
+  tokens: Token[],
+  encoding: Encoding,
+  decode: (value: string) => string | null
+): EncodedSpan[] {
+  const spans: EncodedSpan[] = [];
+
+  for (const { value, index } of tokens) {
+    if (value.length > MAX_SPAN_LENGTH) continue;
+
+    const decoded = decode(value);
+    if (decoded === null || decoded === value || !isPrintable(decoded)) continue;
+
+    spans.push({ value, index, decoded, encoding });
+  }
+
+  return spans;
+}
+
+/**
+ * Collect regex matches (or one capture group of them) as tokens
+ */
+function matchTokens(text: string, regex: RegExp, group: number = 0): Token[] {
+  return [...text.matchAll(regex)].map((match) => ({
+    value: match[group],
+    index: match.index! + match[0].indexOf(match[group]),
+  }));
+}
+
+/**
+ * Find decodable spans in text (at most MAX_SPANS, in text order)
+ */
+export function findEncodedSpans(text: string): EncodedSpan[] {
+  // Base64 shares the entropy scanner's tokens; hex-only tokens never decode to text
+  const base64Tokens = findTokens(text).filter((token) => !/^[0-9a-f]+$/i.test(token.value));
+
+  return [
+    ...(text.includes('\\')
+      ? decodeSpans(matchTokens(text, ESCAPED_STRING_REGEX, 1), 'escaped', decodeEscaped)
+      : []),
+    ...(text.includes('%')
+      ? decodeSpans(matchTokens(text, URL_ENCODED_REGEX), 'url', decodeUrl)
+      : []),
+    ...decodeSpans(base64Tokens, 'base64', decodeBase64),
+  ]
+    .sort((a, b) => a.index - b.index)
+    .slice(0, MAX_SPANS);
+}
+
+/**
+ * Scanner entry point: encoded spans whose decoded content holds a secret
+ */
+export function scanEncodedSecrets(text: string, context: ScanContext): ScannerMatch[] {
+  if (context.depth >= MAX_DECODE_DEPTH) return [];
+
+  const matches: ScannerMatch[] = [];
+
+  for (const span of findEncodedSpans(text)) {
+    const inner = context
+      .rescan(span.decoded)
+      .filter((match) => getConfidenceLevel(match.confidence) === 'mask');
+    if (inner.length === 0) continue;
+
+    // Report the most confident secret found inside
+    const best = inner.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+
+    matches.push({
+      value: span.value,
+      index: span.index,
+      replacement: '[ENCODED_SECRET]',
+      confidence: best.confidence,
+      type: best.type.startsWith('Encoded ') ? best.type : `Encoded ${best.type}`,
+      ...(best.verified ? { verified: true } : {}),
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,221 @@
+/**
+ * Compiled detection engine
+ * Caches compiled detectors between calls, skips patterns whose keywords are
+ * absent from the text (one combined keyword pass per scan) and resolves
+ * overlaps with a sorted interval list
+ */
+
+import type {
+  CustomPattern,
+  PatternOverrides,
+  SecretPattern,
+  SecretScanner,
+} from '@/types/patterns';
+import { compileSafeRegex, PATTERN_TIME_BUDGET_MS } from './safeRegex';
+
+export type Detector = SecretPattern | SecretScanner;
+
+/**
+ * Detector ready to run, in priority order
+ */
+export interface CompiledDetector {
+  key: string;
+  detector: Detector;
+  keywords?: string[]; // Lowercased; the detector is skipped when none occurs in the text
+  timeBudgetMs?: number; // Per scan; user regexes only, so built-ins never trip
+  tripped?: boolean; // Set when the time budget ran out; skipped until recompiled (reported as timedOut)
+  label?: string; // User label replacing the detector's own (built-ins only)
+}
+
+/**
+ * Compiled detectors plus the combined keyword regex used by the prefilter
+ */
+export interface CompiledEngine {
+  detectors: CompiledDetector[];
+  keywordRegex: RegExp | null;
+}
+
+/**
+ * Half-open range [start, end) of the scanned text
+ */
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+// Last compiled detector list and the inputs it was built from
+let compiledCache: {
+  patterns: Record<string, SecretPattern>;
+  scanners: Record<string, SecretScanner>;
+  signature: string;
+  engine: CompiledEngine;
+} | null = null;
+
+/**
+ * Convert CustomPattern to SecretPattern (compile regex)
+ * @throws Error if the regex doesn't compile
+ */
+function customPatternToSecretPattern(customPattern: CustomPattern): SecretPattern {
+  return {
+    name: customPattern.name,
+    regex: compileSafeRegex(customPattern.regex, customPattern.flags).regex,
+    replacement: customPattern.replacement,
+    category: customPattern.category,
+    severity: customPattern.severity,
+    priority: customPattern.priority || 0,
+    custom: true,
+    maskingStrategy: customPattern.maskingStrategy,
+  };
+}
+
+/**
+ * Cache key for the enabled custom patterns (changes whenever one is edited)
+ */
+function customPatternSignature(customPatterns: CustomPattern[]): string {
+  return JSON.stringify(
+    customPatterns.map((p) => [
+      p.id, p.regex, p.flags, p.replacement, p.category, p.severity, p.priority, p.maskingStrategy,
+    ])
+  );
+}
+
+/**
+ * Escape a literal for use inside a regex
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build one case-insensitive regex reporting the longest keyword starting at each
+ * position. The lookahead is zero-width, so overlapping keywords are all seen:
+ * a shorter keyword at the same position is a prefix of the reported one
+ */
+function buildKeywordRegex(detectors: CompiledDetector[]): RegExp | null {
+  const keywords = new Set<string>();
+  detectors.forEach((compiled) => compiled.keywords?.forEach((keyword) => keywords.add(keyword)));
+  if (keywords.size === 0) return null;
+
+  const alternatives = [...keywords].sort((a, b) => b.length - a.length).map(escapeRegex);
+  return new RegExp(`(?=(${alternatives.join('|')}))`, 'gi');
+}
+
+/**
+ * Get built-in detectors plus enabled custom patterns, compiled and sorted by priority
+ * Built-ins are turned off, relabelled or reprioritized by the user's overrides
+ * Recompiles only when the custom patterns or overrides change
+ */
+export function getCompiledEngine(
+  patterns: Record<string, SecretPattern>,
+  scanners: Record<string, SecretScanner>,
+  customPatterns?: CustomPattern[],
+  overrides: PatternOverrides = {}
+): CompiledEngine {
+  const enabledCustom = (customPatterns || []).filter((p) => p.enabled && !p.timedOut);
+  const signature = customPatternSignature(enabledCustom) + JSON.stringify(overrides);
+
+  if (
+    compiledCache &&
+    compiledCache.patterns === patterns &&
+    compiledCache.scanners === scanners &&
+    compiledCache.signature === signature
+  ) {
+    return compiledCache.engine;
+  }
+
+  const allDetectors: Record<string, Detector> = { ...patterns };
+  enabledCustom.forEach((customPattern) => {
+    try {
+      allDetectors[customPattern.id] = customPatternToSecretPattern(customPattern);
+    } catch {
+      console.warn(`[Clip Guard AI] Skipping invalid custom pattern: ${customPattern.name}`);
+    }
+  });
+  Object.assign(allDetectors, scanners);
+
+  // Custom patterns have their own settings; overrides only apply to built-ins
+  const getOverride = (key: string) =>
+    key in patterns || key in scanners ? overrides[key] || {} : {};
+  const getPriority = (key: string, detector: Detector) =>
+    getOverride(key).priority ?? (detector.priority || 0);
+
+  const detectors = Object.entries(allDetectors)
+    .filter(([key]) => getOverride(key).enabled !== false)
+    .sort(([keyA, a], [keyB, b]) => getPriority(keyA, a) - getPriority(keyB, b))
+    .map(([key, detector]) => {
+      const keywords = detector.keywords;
+      const label = getOverride(key).label;
+      return {
+        key,
+        detector,
+        ...(keywords && keywords.length > 0
+          ? { keywords: keywords.map((keyword) => keyword.toLowerCase()) }
+          : {}),
+        ...('custom' in detector && detector.custom ? { timeBudgetMs: PATTERN_TIME_BUDGET_MS } : {}),
+        ...(label ? { label } : {}),
+      };
+    });
+
+  const engine = { detectors, keywordRegex: buildKeywordRegex(detectors) };
+  compiledCache = { patterns, scanners, signature, engine };
+  return engine;
+}
+
+/**
+ * Find the distinct keywords (lowercased) reported by the keyword regex
+ * Prefixes of these also occur in the text; passesPrefilter accounts for them
+ */
+export function findKeywords(engine: CompiledEngine, text: string): Set<string> {
+  const found = new Set<string>();
+  if (!engine.keywordRegex) return found;
+
+  for (const match of text.matchAll(engine.keywordRegex)) {
+    found.add(match[1].toLowerCase());
+  }
+  return found;
+}
+
+/**
+ * Check if a detector can match, given the keywords found in the text
+ */
+export function passesPrefilter(compiled: CompiledDetector, found: Set<string>): boolean {
+  if (!compiled.keywords) return true;
+
+  for (const hit of found) {
+    if (compiled.keywords.some((keyword) => hit.startsWith(keyword))) return true;
+  }
+  return false;
+}
+
+/**
+ * Index of the first interval ending after position (intervals are sorted and disjoint,
+ * so their ends are sorted too)
+ */
+function firstEndingAfter(intervals: Interval[], position: number): number {
+  let low = 0;
+  let high = intervals.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (intervals[mid].end > position) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Check if [start, end) overlaps an interval of the sorted list
+ */
+export function overlapsInterval(intervals: Interval[], start: number, end: number): boolean {
+  const i = firstEndingAfter(intervals, start);
+  return i < intervals.length && intervals[i].start < Math.max(end, start + 1);
+}
+
+/**
+ * Insert [start, end) into the sorted list (caller checks it doesn't overlap)
+ */
+export function insertInterval(intervals: Interval[], start: number, end: number): void {
+  intervals.splice(firstEndingAfter(intervals, start), 0, { start, end });
+}
@@ -0,0 +1,235 @@
+/**
+ * Entropy-based detection for secrets without a known prefix
+ */
+
+import type { ScannerMatch } from '@/types/patterns';
+
+/**
+ * Character set a candidate token is classified into
+ */
+export type EntropyCharset = 'hex' | 'alphanumeric' | 'base64';
+
+interface CharsetRule {
+  charset: EntropyCharset;
+  test: RegExp;
+  minLength: number;
+  threshold: number; // Minimum Shannon entropy (bits per character)
+}
+
+/**
+ * Per-charset rules, checked in order (most specific first).
+ * Thresholds sit just below what random strings of the minimum length reach,
+ * so identifiers and prose fall short.
+ */
+const CHARSET_RULES: CharsetRule[] = [
+  {
+    charset: 'hex',
+    test: /^[0-9a-f]+$/i,
+    minLength: 32,
+    threshold: 3.0,
+  },
+  {
+    charset: 'alphanumeric',
+    test: /^[A-Za-z0-9]+$/,
+    minLength: 20,
+    threshold: 3.7,
+  },
+  {
+    charset: 'base64',
+    test: /^[A-Za-z0-9+/_-]+={0,2}$/,
+    minLength: 24,
+    threshold: 4.2,
+  },
+];
+
+// Near misses (short or slightly below threshold) are kept with a low score
+// so that a sensitive key name nearby can still promote them
+const NEAR_MISS_MIN_LENGTH = 16;
+const NEAR_MISS_MARGIN = 0.6;
+
+// Hex lengths of SHA-1 and SHA-256 digests (git commits, checksums, image digests): scored
+// below the warn level, so only a sensitive key name can promote them
+const DIGEST_HEX_LENGTHS = new Set([40, 64]);
+const DIGEST_CONFIDENCE = 0.2;
+
+// Subresource integrity values (package-lock.json, yarn.lock): sha512-<base64>
+const INTEGRITY_VALUE_REGEX = /^sha(?:1|256|384|512)-/i;
+
+// Words shortly before a token on its line that mark it as a hash, assigned or not:
+// "commit 3f9a…", "integrity sha512-…", "sha256 checksum: 9b2c…"
+const HASH_CONTEXT_REGEX =
+  /(?<![A-Za-z])(?:commit|hash|sha(?:1|256|384|512)?|md5|checksum|digest|integrity|revision|etag)(?![A-Za-z])[^\n]{0,40}$/i;
+
+// Tokens made of base64/base64url characters, not glued to other word characters
+const CANDIDATE_REGEX = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/_-]{16,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+
+/**
+ * Base64-charset token located in the text
+ */
+export interface Token {
+  value: string;
+  index: number;
+}
+
+// Last tokenized text, shared by the entropy and decoding scanners of one scan
+let tokenCache: { text: string; tokens: Token[] } | null = null;
+
+/**
+ * Entropy candidate with the rule it was classified under
+ */
+export interface EntropyCandidate {
+  value: string;
+  index: number;
+  charset: EntropyCharset;
+  entropy: number;
+  threshold: number;
+  minLength: number;
+}
+
+/**
+ * Calculate entropy of string
+ */
+export function calculateEntropy(str: string): number {
+  const freq: Record<string, number> = {};
+  for (let char of str) {
+    freq[char] = (freq[char] || 0) + 1;
+  }
+
+  let entropy = 0;
+  const len = str.length;
+
+  for (let char in freq) {
+    const p = freq[char] / len;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
+
+/**
+ * Check if string is high-entropy secret
+ */
+export function isHighEntropy(str: string, threshold: number = 4.5): boolean {
+  return calculateEntropy(str) > threshold;
+}
+
+/**
+ * Classify a token into a charset rule (null if no rule applies)
+ */
+function classifyCharset(value: string): CharsetRule | null {
+  const rule = CHARSET_RULES.find((r) => r.test.test(value));
+  if (!rule) return null;
+
+  const digits = (value.match(/[0-9]/g) || []).length;
+  const letters = (value.match(/[A-Za-z]/g) || []).length;
+
+  // Random tokens mix letters and digits; identifiers and words rarely do
+  if (rule.charset === 'hex' && (digits === 0 || letters === 0)) return null;
+  if (rule.charset !== 'hex' && (digits < 2 || letters < 2)) return null;
+
+  return rule;
+}
+
+/**
+ * Check if candidate fully meets its charset rule (length and entropy)
+ */
+export function meetsThreshold(candidate: EntropyCandidate): boolean {
+  return (
+    candidate.value.length >= candidate.minLength &&
+    candidate.entropy >= candidate.threshold
+  );
+}
+
+/**
+ * Find base64-charset tokens of 16+ chars (memoized for the last text)
+ */
+export function findTokens(text: string): Token[] {
+  if (tokenCache && tokenCache.text === text) return tokenCache.tokens;
+
+  const tokens: Token[] = [];
+  const regex = new RegExp(CANDIDATE_REGEX.source, CANDIDATE_REGEX.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    tokens.push({ value: match[0], index: match.index });
+  }
+
+  tokenCache = { text, tokens };
+  return tokens;
+}
+
+/**
+ * Check if a token is a hash by its form or by the words before it on its line
+ */
+function isHashValue(text: string, value: string, index: number): boolean {
+  if (INTEGRITY_VALUE_REGEX.test(value)) return true;
+
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  return HASH_CONTEXT_REGEX.test(text.substring(lineStart, index));
+}
+
+/**
+ * Find tokens whose entropy meets (or nearly meets) their charset threshold
+ * Hashes (integrity values, tokens after commit/hash/checksum/…) are skipped
+ */
+export function findEntropyCandidates(text: string): EntropyCandidate[] {
+  const candidates: EntropyCandidate[] = [];
+
+  for (const { value, index } of findTokens(text)) {
+    if (isHashValue(text, value, index)) continue;
+
+    const rule = classifyCharset(value);
+    if (!rule) continue;
+
+    const entropy = calculateEntropy(value);
+    if (entropy < rule.threshold - NEAR_MISS_MARGIN) continue;
+    if (value.length < rule.minLength && value.length < NEAR_MISS_MIN_LENGTH) continue;
+
+    candidates.push({
+      value,
+      index,
+      charset: rule.charset,
+      entropy,
+      threshold: rule.threshold,
+      minLength: rule.minLength,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Confidence that a candidate is a secret (0-1)
+ * Candidates meeting the threshold start at 0.6 and grow with the entropy margin;
+ * near misses and digest-length hex stay below the warn level unless context promotes them
+ */
+export function entropyConfidence(candidate: EntropyCandidate): number {
+  if (candidate.charset === 'hex' && DIGEST_HEX_LENGTHS.has(candidate.value.length)) {
+    return DIGEST_CONFIDENCE;
+  }
+
+  let confidence: number;
+
+  if (meetsThreshold(candidate)) {
+    const margin = Math.min(1, candidate.entropy - candidate.threshold);
+    confidence = 0.6 + 0.35 * margin;
+  } else {
+    const deficit = Math.max(0, candidate.threshold - candidate.entropy);
+    const shortPenalty = candidate.value.length < candidate.minLength ? 0.05 : 0;
+    confidence = 0.3 - 0.2 * (deficit / NEAR_MISS_MARGIN) - shortPenalty;
+  }
+
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Scanner entry point: high-entropy tokens masked as [SECRET]
+ */
+export function scanHighEntropyStrings(text: string): ScannerMatch[] {
+  return findEntropyCandidates(text).map((candidate) => ({
+    value: candidate.value,
+    index: candidate.index,
+    replacement: '[SECRET]',
+    confidence: entropyConfidence(candidate),
+  }));
+}
@@ -0,0 +1,252 @@
+/**
+ * Kubernetes-aware detection
+ * Masks Secret data/stringData values, kubeconfig credentials and Helm values.yaml secrets
+ */
+
+import type { ScannerMatch } from '@/types/patterns';
+import { classifyKeyName } from './context';
+import { extractValue, isMaskableValue } from './structured';
+
+/**
+ * Raw source line with its absolute offset
+ */
+interface SourceLine {
+  text: string;
+  start: number;
+}
+
+/**
+ * YAML mapping line (key: value) within a document
+ */
+interface YamlLine {
+  indent: number; // Column of the key (after any "- " list marker)
+  key: string;
+  rest: string; // Everything after "key: "
+  restIndex: number; // Absolute offset of `rest`
+}
+
+/**
+ * Parsed YAML document: raw lines plus mapping lines (null for other lines)
+ */
+interface YamlDocument {
+  source: SourceLine[];
+  lines: (YamlLine | null)[];
+}
+
+const DOCUMENT_SEPARATOR_REGEX = /^---[^\S\n]*$/gm;
+const YAML_LINE_REGEX = /^(\s*(?:-\s+)?)([^\s:#'"][^:#]*?|"[^"]*"|'[^']*'):(?:[^\S\n]+(.*))?$/;
+const BLOCK_SCALAR_REGEX = /^[|>][-+0-9]*\s*(?:#.*)?$/;
+
+// kubeconfig fields holding credentials (client-certificate-data is public)
+const KUBECONFIG_FIELDS: Record<string, string> = {
+  'client-key-data': '[KUBE_KEY]',
+  token: '[KUBE_TOKEN]',
+  'id-token': '[KUBE_TOKEN]',
+  'refresh-token': '[KUBE_TOKEN]',
+  'access-token': '[KUBE_TOKEN]',
+  'client-secret': '[KUBE_TOKEN]',
+  password: '[PASS]',
+};
+
+// Top-level keys typical of Helm chart values.yaml files
+const HELM_VALUES_KEYS = [
+  'replicaCount',
+  'image',
+  'imagePullSecrets',
+  'service',
+  'ingress',
+  'resources',
+  'nodeSelector',
+  'tolerations',
+  'affinity',
+  'persistence',
+  'serviceAccount',
+  'podAnnotations',
+];
+
+// Text that a manifest, kubeconfig or values.yaml always contains (keyword prefilter)
+export const KUBERNETES_KEYWORDS = [
+  'kind:',
+  'client-key-data:',
+  ...HELM_VALUES_KEYS.map((key) => `${key}:`),
+];
+
+// Helm chart keys that hold secrets without a telltale name
+const HELM_SECRET_KEYS = new Set(['erlangCookie', 'secretKeyBase', 'masterKey']);
+
+/**
+ * Split a YAML document into raw and mapping lines
+ */
+function parseYamlDocument(doc: string, offset: number): YamlDocument {
+  const source: SourceLine[] = [];
+  const lines: (YamlLine | null)[] = [];
+  let lineStart = offset;
+
+  for (const text of doc.split('\n')) {
+    source.push({ text, start: lineStart });
+
+    const match = /^\s*#/.test(text) ? null : text.match(YAML_LINE_REGEX);
+    if (match) {
+      const [, prefix, rawKey, rest = ''] = match;
+      lines.push({
+        indent: prefix.length,
+        key: rawKey.replace(/^["']|["']$/g, ''),
+        rest,
+        restIndex: lineStart + text.length - rest.length,
+      });
+    } else {
+      lines.push(null);
+    }
+
+    lineStart += text.length + 1;
+  }
+
+  return { source, lines };
+}
+
+/**
+ * Indentation of a raw line, or -1 for blank/comment lines
+ */
+function lineIndent(line: string): number {
+  if (!line.trim() || /^\s*#/.test(line)) return -1;
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Build a match for a line's value (inline value or block scalar body)
+ */
+function valueMatch(
+  yaml: YamlDocument,
+  text: string,
+  i: number,
+  replacement: string
+): ScannerMatch | null {
+  const line = yaml.lines[i]!;
+
+  if (BLOCK_SCALAR_REGEX.test(line.rest)) {
+    // Block scalar: mask the indented body as one span
+    let start = -1;
+    let end = -1;
+    for (let j = i + 1; j < yaml.source.length; j++) {
+      const { text: raw, start: rawStart } = yaml.source[j];
+      const indent = lineIndent(raw);
+      if (indent === -1) continue;
+      if (indent <= line.indent) break;
+      if (start === -1) start = rawStart + indent;
+      end = rawStart + raw.length;
+    }
+    if (start === -1) return null;
+    return {
+      value: text.substring(start, end),
+      index: start,
+      replacement,
+      confidence: 0.95,
+    };
+  }
+
+  const extracted = extractValue(line.rest, 'yaml');
+  if (!extracted || !isMaskableValue(extracted.value)) return null;
+
+  return {
+    value: extracted.value,
+    index: line.restIndex + extracted.offset,
+    replacement,
+    confidence: 0.95,
+  };
+}
+
+/**
+ * Secret manifests: every value under top-level data: and stringData:
+ */
+function scanSecretManifest(text: string, yaml: YamlDocument): ScannerMatch[] {
+  const matches: ScannerMatch[] = [];
+  let blockIndent = -1; // Child indent inside data:/stringData:, -1 when outside
+
+  yaml.lines.forEach((line, i) => {
+    const indent = lineIndent(yaml.source[i].text);
+    if (indent === -1) return;
+
+    if (indent === 0) {
+      blockIndent = line && /^(?:data|stringData)$/.test(line.key) && !line.rest ? 0 : -1;
+      return;
+    }
+
+    if (blockIndent === -1 || !line) return;
+    if (blockIndent === 0) blockIndent = line.indent; // First child sets the level
+    if (line.indent !== blockIndent) return;
+
+    const match = valueMatch(yaml, text, i, '[K8S_SECRET]');
+    if (match) matches.push(match);
+  });
+
+  return matches;
+}
+
+/**
+ * kubeconfig files: credential fields under users:
+ */
+function scanKubeconfig(text: string, yaml: YamlDocument): ScannerMatch[] {
+  const matches: ScannerMatch[] = [];
+
+  yaml.lines.forEach((line, i) => {
+    if (!line || !(line.key in KUBECONFIG_FIELDS)) return;
+    const match = valueMatch(yaml, text, i, KUBECONFIG_FIELDS[line.key]);
+    if (match) matches.push(match);
+  });
+
+  return matches;
+}
+
+/**
+ * Helm values.yaml: sensitive keys anywhere in the tree
+ */
+function scanHelmValues(text: string, yaml: YamlDocument): ScannerMatch[] {
+  const matches: ScannerMatch[] = [];
+
+  yaml.lines.forEach((line, i) => {
+    if (!line) return;
+    if (classifyKeyName(line.key) !== 'sensitive' && !HELM_SECRET_KEYS.has(line.key)) return;
+    const match = valueMatch(yaml, text, i, '[HELM_SECRET]');
+    if (match) matches.push(match);
+  });
+
+  return matches;
+}
+
+/**
+ * Check if a YAML document looks like Helm chart values
+ */
+function isHelmValues(doc: string): boolean {
+  if (/^(?:apiVersion|kind):/m.test(doc)) return false;
+  const found = HELM_VALUES_KEYS.filter((key) =>
+    new RegExp(`^${key}:`, 'm').test(doc)
+  );
+  return found.length >= 2;
+}
+
+/**
+ * Scanner entry point: Kubernetes Secrets, kubeconfig and Helm values
+ */
+export function scanKubernetesSecrets(text: string): ScannerMatch[] {
+  const matches: ScannerMatch[] = [];
+
+  // Split multi-document YAML on "---" lines, keeping absolute offsets
+  const separators = [...text.matchAll(DOCUMENT_SEPARATOR_REGEX)];
+  const bounds = [0, ...separators.map((m) => m.index! + m[0].length + 1)];
+
+  bounds.forEach((start, i) => {
+    const end = i + 1 < bounds.length ? separators[i].index! : text.length;
+    if (start >= end) return;
+    const doc = text.substring(start, end);
+
+    if (/^kind:\s*Secret\s*$/m.test(doc)) {
+      matches.push(...scanSecretManifest(text, parseYamlDocument(doc, start)));
+    } else if (/^kind:\s*Config\s*$/m.test(doc) || /^\s*client-key-data:/m.test(doc)) {
+      matches.push(...scanKubeconfig(text, parseYamlDocument(doc, start)));
+    } else if (isHelmValues(doc)) {
+      matches.push(...scanHelmValues(text, parseYamlDocument(doc, start)));
+    }
+  });
+
+  return matches;
+}
@@ -0,0 +1,221 @@
+/**
+ * Custom pattern inference from example secrets
+ * Looks at a few tokens of the same kind (e.g. acme_live_Q3x9…, acme_live_p0Lm…) and
+ * proposes a regex: the shared prefix literally, then each separator-delimited segment
+ * as a character class with the observed length range
+ *   acme_live_Q3x9Tz81Kd, acme_live_p0LmW2cN7s → \bacme_live_[A-Za-z0-9]{10}(?![A-Za-z0-9])
+ */
+
+/**
+ * Part of the token after the prefix
+ */
+export interface InferredSegment {
+  charset: string; // Regex character class, e.g. [A-Za-z0-9]
+  description: string; // e.g. "letters and digits"
+  minLength: number;
+  maxLength: number;
+}
+
+/**
+ * Proposed pattern and how it was derived
+ */
+export interface InferredPattern {
+  regex: string;
+  examples: string[]; // The tokens it was inferred from (trimmed, deduplicated)
+  prefix: string;
+  segments: InferredSegment[];
+  separators: string[]; // Between consecutive segments
+  suggestedLabel: string; // Replacement label, e.g. ACME_LIVE_TOKEN
+  warnings: string[];
+}
+
+// Characters that split a token into segments (acme_live_…, 1234-abcd-…)
+const SEPARATORS = ['_', '-', '.', ':'];
+
+// Hex is only inferred from this much material; shorter strings are hex by chance
+const MIN_HEX_LENGTH = 16;
+
+// Tokens shorter than this are likely to match ordinary words
+const MIN_TOKEN_LENGTH = 8;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function escapeClassChar(char: string): string {
+  return /[\]\\^-]/.test(char) ? `\\${char}` : char;
+}
+
+function commonPrefix(values: string[]): string {
+  let prefix = values[0];
+  values.forEach((value) => {
+    while (!value.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  });
+  return prefix;
+}
+
+/**
+ * Literal start of every token: the shared text up to its last separator
+ * Without a separator, a shared start is only trusted when several examples agree
+ */
+function inferPrefix(values: string[]): string {
+  // Every token keeps at least one character after the prefix
+  const shortest = Math.min(...values.map((value) => value.length));
+  const common = commonPrefix(values).slice(0, shortest - 1);
+
+  const lastSeparator = Math.max(...SEPARATORS.map((separator) => common.lastIndexOf(separator)));
+  if (lastSeparator >= 0) return common.slice(0, lastSeparator + 1);
+
+  return values.length >= 2 && common.length >= 2 ? common : '';
+}
+
+/**
+ * Split tokens into segments at separators, when every token has the same separators
+ * in the same order; otherwise each token is a single segment
+ */
+function splitSegments(bodies: string[]): { parts: string[][]; separators: string[] } {
+  const separatorRegex = new RegExp(`[${SEPARATORS.map(escapeClassChar).join('')}]`, 'g');
+  const layouts = bodies.map((body) => (body.match(separatorRegex) || []).join(''));
+  const parts = bodies.map((body) => body.split(separatorRegex));
+  // Doubled or trailing separators leave empty segments, which can't be described
+  const consistent =
+    layouts.every((layout) => layout === layouts[0]) &&
+    parts.every((tokenParts) => tokenParts.every(Boolean));
+
+  if (!consistent || !layouts[0]) {
+    return { parts: bodies.map((body) => [body]), separators: [] };
+  }
+
+  return { parts, separators: Array.from(layouts[0]) };
+}
+
+/**
+ * Character class covering every character seen in a segment
+ */
+function inferCharset(values: string[]): Pick<InferredSegment, 'charset' | 'description'> {
+  const chars = values.join('');
+
+  if (/^[0-9]+$/.test(chars)) {
+    return { charset: '[0-9]', description: 'digits' };
+  }
+  if (chars.length >= MIN_HEX_LENGTH && /^[0-9a-f]+$/.test(chars)) {
+    return { charset: '[0-9a-f]', description: 'lowercase hex' };
+  }
+  if (chars.length >= MIN_HEX_LENGTH && /^[0-9A-F]+$/.test(chars)) {
+    return { charset: '[0-9A-F]', description: 'uppercase hex' };
+  }
+
+  const ranges: string[] = [];
+  const names: string[] = [];
+  if (/[A-Z]/.test(chars) && /[a-z]/.test(chars)) {
+    ranges.push('A-Za-z');
+    names.push('letters');
+  } else if (/[A-Z]/.test(chars)) {
+    ranges.push('A-Z');
+    names.push('uppercase letters');
+  } else if (/[a-z]/.test(chars)) {
+    ranges.push('a-z');
+    names.push('lowercase letters');
+  }
+  if (/[0-9]/.test(chars)) {
+    ranges.push('0-9');
+    names.push('digits');
+  }
+
+  const others = Array.from(new Set(chars.replace(/[A-Za-z0-9]/g, ''))).sort();
+  if (others.length > 0) names.push(others.join(' '));
+
+  return {
+    charset: `[${ranges.join('')}${others.map(escapeClassChar).join('')}]`,
+    description: names.join(' and '),
+  };
+}
+
+function quantifier(segment: InferredSegment): string {
+  return segment.minLength === segment.maxLength
+    ? `{${segment.minLength}}`
+    : `{${segment.minLength},${segment.maxLength}}`;
+}
+
+/**
+ * Replacement label from the prefix: acme_live_ → ACME_LIVE_TOKEN
+ */
+function suggestLabel(prefix: string): string {
+  const name = prefix
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+  if (!name) return 'CUSTOM_TOKEN';
+  return /(?:TOKEN|KEY|SECRET)$/.test(name) ? name : `${name}_TOKEN`;
+}
+
+/**
+ * Propose a pattern for example tokens, one per line
+ * @returns null when there is no usable example
+ */
+export function inferPattern(input: string): InferredPattern | null {
+  const warnings: string[] = [];
+  const lines = Array.from(
+    new Set(
+      input
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+    )
+  );
+
+  // Whitespace would make the pattern span several words
+  const examples = lines.filter((line) => !/\s/.test(line));
+  if (examples.length < lines.length) {
+    warnings.push('Examples containing spaces were skipped; paste the tokens alone');
+  }
+  if (examples.length === 0) return null;
+
+  if (examples.length === 1) {
+    warnings.push("A single example can't show which parts vary; add two or three more");
+  }
+
+  const prefix = inferPrefix(examples);
+  const bodies = examples.map((example) => example.slice(prefix.length));
+  const { parts, separators } = splitSegments(bodies);
+  const hasSeparators = bodies.some((body) =>
+    SEPARATORS.some((separator) => body.includes(separator))
+  );
+  if (examples.length > 1 && separators.length === 0 && hasSeparators) {
+    warnings.push('The examples are split differently, so separators are matched anywhere');
+  }
+
+  const segments = parts[0].map((_, i): InferredSegment => {
+    const values = parts.map((tokenParts) => tokenParts[i]);
+    const lengths = values.map((value) => value.length);
+    return {
+      ...inferCharset(values),
+      minLength: Math.min(...lengths),
+      maxLength: Math.max(...lengths),
+    };
+  });
+
+  if (Math.min(...examples.map((example) => example.length)) < MIN_TOKEN_LENGTH) {
+    warnings.push('Short tokens are likely to match ordinary words; consider a longer prefix');
+  }
+
+  const body = segments
+    .map((segment, i) => {
+      const separator = i > 0 ? escapeRegex(separators[i - 1]) : '';
+      return `${separator}${segment.charset}${quantifier(segment)}`;
+    })
+    .join('');
+  const start = /^\w/.test(examples[0]) ? '\\b' : '';
+  // Tokens that continue past the longest example aren't this kind of token
+  const end = `(?!${segments[segments.length - 1].charset})`;
+
+  return {
+    regex: `${start}${escapeRegex(prefix)}${body}${end}`,
+    examples,
+    prefix,
+    segments,
+    separators,
+    suggestedLabel: suggestLabel(prefix),
+    warnings,
+  };
+}
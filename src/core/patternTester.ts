@@ -0,0 +1,99 @@
+/**
+ * Live tester for a custom pattern being edited
+ * Shows what the pattern matches in sample text on its own, what a paste of that text
+ * would look like with everything else enabled, and which other detectors compete for
+ * the same spans under the priority/overlap rules
+ */
+
+import type { CustomPattern, PatternMatch } from '@/types/patterns';
+import { getConfidenceLevel } from './context';
+import {
+  detectSecretPatterns,
+  maskDetectedSecrets,
+  type DetectionOptions,
+} from './detector';
+import { isolatingOverrides } from './selfTest';
+
+/**
+ * Span the tested pattern matches in the sample
+ */
+export interface TestedSpan {
+  index: number;
+  end: number;
+  value: string;
+  level: 'mask' | 'warn'; // warn: context scoring leaves it unmasked
+  claimedBy?: string; // Detector that masks the span instead (the pattern loses the overlap)
+  competitors: string[]; // Other detectors that would mask part of the span without the pattern
+}
+
+/**
+ * Outcome of testing a pattern on sample text
+ */
+export interface PatternTestResult {
+  spans: TestedSpan[];
+  masked: string; // The sample as a paste would be masked, pattern included
+  timedOut: boolean; // The pattern ran over its time budget, so its matches may be incomplete
+}
+
+function overlaps(match: PatternMatch, index: number, end: number): boolean {
+  return match.index < end && match.index + match.value.length > index;
+}
+
+/**
+ * Test a pattern on sample text
+ * @param candidate - The pattern being edited (tested as enabled)
+ * @param otherPatterns - The user's other custom patterns
+ * @param enabledCategories - Category filters, as for a paste
+ * @param options - Detection and masking options, as for a paste
+ */
+export function testPattern(
+  candidate: CustomPattern,
+  sample: string,
+  otherPatterns: CustomPattern[],
+  enabledCategories: Record<string, boolean>,
+  options: DetectionOptions = {}
+): PatternTestResult {
+  const pattern = { ...candidate, enabled: true, timedOut: false };
+  const others = otherPatterns.filter((other) => other.id !== pattern.id);
+  const categories = { ...enabledCategories, [pattern.category]: true };
+
+  // The pattern alone, then the full detector set with and without it
+  const alone = detectSecretPatterns(sample, { [pattern.category]: true }, [pattern], {
+    patternOverrides: isolatingOverrides(),
+  });
+  const withPattern = detectSecretPatterns(sample, categories, [...others, pattern], options);
+  const withoutPattern = detectSecretPatterns(sample, categories, others, options);
+
+  const spans = alone.matches.map((match): TestedSpan => {
+    const index = match.index;
+    const end = index + match.value.length;
+    const level = getConfidenceLevel(match.confidence) === 'mask' ? 'mask' : 'warn';
+    const winner = withPattern.matches.find(
+      (other) => overlaps(other, index, end) && getConfidenceLevel(other.confidence) === 'mask'
+    );
+
+    return {
+      index,
+      end,
+      value: match.value,
+      level,
+      ...(winner && winner.patternKey !== pattern.id ? { claimedBy: winner.type } : {}),
+      competitors: [
+        ...new Set(
+          withoutPattern.matches
+            .filter(
+              (other) =>
+                overlaps(other, index, end) && getConfidenceLevel(other.confidence) === 'mask'
+            )
+            .map((other) => other.type)
+        ),
+      ],
+    };
+  });
+
+  return {
+    spans,
+    masked: maskDetectedSecrets(sample, withPattern, options).masked,
+    timedOut: alone.timedOut.includes(pattern.id),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Stable placeholder IDs
+ * The same secret gets the same placeholder for the whole session ([AWS_KEY#q3q1] each time
+ * it is pasted), so the AI can tell repeated values from distinct ones. IDs are an HMAC of
+ * the value under a random key that only lives in memory; the registry makes sure two
+ * distinct values never share a placeholder, and a new ID never repeats one already in
+ * the vault (restore map) or in the pasted text
+ */
+
+import { hmacSha256, toHex } from './hash';
+
+const ID_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+export const DEFAULT_ID_LENGTH = 4;
+export const MIN_ID_LENGTH = 4;
+export const MAX_ID_LENGTH = 12;
+
+// LABEL#id with optional brackets: [AWS_KEY#q3q1], AWS_KEY#q3q1
+const PLACEHOLDER_REGEX = new RegExp(
+  `\\[?(?<![A-Za-z0-9_-])([A-Z0-9_-]+#[a-z0-9]{${MIN_ID_LENGTH},${MAX_ID_LENGTH}})(?![a-z0-9])\\]?`,
+  'g'
+);
+
+/**
+ * Placeholder found in text
+ */
+export interface FoundPlaceholder {
+  token: string; // LABEL#id, without brackets or hints
+  index: number;
+  end: number; // Includes the brackets when present
+}
+
+let sessionKey: Uint8Array | null = null;
+
+// label + value → ID, and label#ID → value, for every placeholder known this session
+const idsByValue = new Map<string, string>();
+const valuesById = new Map<string, string>();
+
+function getSessionKey(): Uint8Array {
+  if (!sessionKey) {
+    sessionKey = crypto.getRandomValues(new Uint8Array(32));
+  }
+  return sessionKey;
+}
+
+/**
+ * Hex HMAC of a value under the session key, for comparing values without revealing them
+ */
+export function getSessionDigest(value: string): string {
+  return toHex(hmacSha256(getSessionKey(), new TextEncoder().encode(value)));
+}
+
+/**
+ * Clamp a configured ID length to the supported range
+ */
+export function normalizeIdLength(length?: number): number {
+  if (!length || !Number.isInteger(length)) return DEFAULT_ID_LENGTH;
+  return Math.min(MAX_ID_LENGTH, Math.max(MIN_ID_LENGTH, length));
+}
+
+/**
+ * Derive a candidate ID; attempt > 0 gives a different ID after a collision
+ */
+function deriveId(label: string, value: string, length: number, attempt: number): string {
+  const message = new TextEncoder().encode(`${label}\0${value}\0${attempt}`);
+  const digest = hmacSha256(getSessionKey(), message);
+  return Array.from(digest.subarray(0, length), (byte) =>
+    ID_ALPHABET.charAt(byte % ID_ALPHABET.length)
+  ).join('');
+}
+
+/**
+ * Find placeholder-shaped strings in text
+ */
+export function findPlaceholders(text: string): FoundPlaceholder[] {
+  // Most pastes hold none; skip the regex pass over large ones
+  if (!text.includes('#')) return [];
+
+  return Array.from(text.matchAll(PLACEHOLDER_REGEX), (match) => ({
+    token: match[1],
+    index: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Register the vault's placeholders so new IDs never collide with them
+ * A secret already in the vault keeps its placeholder
+ */
+export function reservePlaceholders(
+  entries: { original: string; numberedReplacement: string }[]
+): void {
+  entries.forEach((entry) => {
+    findPlaceholders(entry.numberedReplacement).forEach(({ token }) => {
+      if (valuesById.has(token)) return;
+
+      const [label, id] = token.split('#');
+      const valueKey = `${label}\0${entry.original}`;
+      valuesById.set(token, entry.original);
+      if (!idsByValue.has(valueKey)) idsByValue.set(valueKey, id);
+    });
+  });
+}
+
+/**
+ * ID for a label and secret, the same every time within this session
+ * A secret keeps its first ID even if the configured length changes later
+ * @param taken - LABEL#id tokens already in the text being masked; a new ID avoids them
+ */
+export function getPlaceholderId(
+  label: string,
+  value: string,
+  length: number = DEFAULT_ID_LENGTH,
+  taken?: Set<string>
+): string {
+  const valueKey = `${label}\0${value}`;
+  const known = idsByValue.get(valueKey);
+  if (known) return known;
+
+  const isTaken = (id: string) =>
+    valuesById.has(`${label}#${id}`) || (taken?.has(`${label}#${id}`) ?? false);
+
+  let id = deriveId(label, value, length, 0);
+  for (let attempt = 1; isTaken(id); attempt++) {
+    id = deriveId(label, value, length, attempt);
+  }
+
+  idsByValue.set(valueKey, id);
+  valuesById.set(`${label}#${id}`, value);
+  return id;
+}
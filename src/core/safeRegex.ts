@@ -0,0 +1,327 @@
+/**
+ * Safe compilation of user-supplied regexes (custom patterns)
+ * Normalizes flags so scanning loops always advance and refuses constructs that
+ * can backtrack catastrophically (ReDoS)
+ */
+
+// Flags kept from user input; sticky (y) is dropped because scanning needs plain global search
+const ALLOWED_FLAGS = 'dgimsu';
+
+// Time a custom pattern may spend on one scan before it is stopped and disabled
+// Checked between matches, so it stops patterns that are slow overall; a single
+// exec() can't be interrupted, which is why catastrophic constructs are refused outright
+export const PATTERN_TIME_BUDGET_MS = 100;
+
+// Named group that limits masking to part of the match, e.g. X-Internal-Key: (?<secret>\w+)
+export const SECRET_GROUP = 'secret';
+
+const NESTED_QUANTIFIER_RISK =
+  'Nested quantifiers like (a+)+ can take exponential time on some inputs; make the inner or outer repetition bounded';
+
+const OVERLAPPING_ALTERNATION_RISK =
+  'Repeated alternatives that can match the same text, like (a|aa)+, can take exponential time on some inputs; make each alternative start differently or bound the repetition';
+
+// Characters tried when checking whether two alternatives can start the same way
+const PROBE_CHARS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  '\u00a0',
+  '\u00e9',
+  '\u2028',
+  '\u4e2d',
+];
+
+/**
+ * Compiled user regex plus the risks found in it
+ */
+export interface SafeRegex {
+  regex: RegExp;
+  warnings: string[];
+}
+
+/**
+ * Check if a regex source declares the (?<secret>…) group
+ */
+export function hasSecretGroup(source: string): boolean {
+  return source.includes(`(?<${SECRET_GROUP}>`);
+}
+
+/**
+ * Keep known flags once each and always add g
+ * Adds d when the source has a secret group, so match indices locate it
+ */
+export function normalizeFlags(flags?: string, source: string = ''): string {
+  const kept = new Set(
+    [...(flags || '')].filter((flag) => ALLOWED_FLAGS.includes(flag))
+  );
+  kept.add('g');
+  if (hasSecretGroup(source)) kept.add('d');
+  return [...ALLOWED_FLAGS].filter((flag) => kept.has(flag)).join('');
+}
+
+/**
+ * Read the quantifier starting at i (null if there is none)
+ * unbounded is set for +, * and {n,}
+ */
+function readQuantifier(source: string, i: number): { end: number; unbounded: boolean } | null {
+  const ch = source[i];
+  let end: number;
+  let unbounded: boolean;
+
+  if (ch === '+' || ch === '*') {
+    end = i + 1;
+    unbounded = true;
+  } else if (ch === '?') {
+    end = i + 1;
+    unbounded = false;
+  } else if (ch === '{') {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+    if (!braces) return null;
+    end = i + braces[0].length;
+    unbounded = braces[2] !== undefined && braces[3] === '';
+  } else {
+    return null;
+  }
+
+  // Lazy marker
+  if (source[end] === '?') end++;
+  return { end, unbounded };
+}
+
+/**
+ * Index just past the character class starting at i
+ */
+function skipCharacterClass(source: string, i: number): number {
+  i++;
+  while (i < source.length && source[i] !== ']') {
+    i += source[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Index just past the modifiers of a group opened before i, e.g. ?: or ?<name>
+ * Skipped so their ? isn't read as a quantifier
+ */
+function skipGroupModifiers(source: string, i: number): number {
+  if (source[i] !== '?') return i;
+
+  i++;
+  if (source[i] === '<' && source[i + 1] !== '=' && source[i + 1] !== '!') {
+    return source.indexOf('>', i) + 1 || source.length;
+  }
+  return i + (source[i] === '<' ? 2 : 1);
+}
+
+/**
+ * Check for a group with an unbounded quantifier inside that is itself repeated
+ * without bound, e.g. (a+)+, (\w*\s)* or ((ab)+c)*
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  const groups: boolean[] = []; // Per open group: contains an unbounded quantifier
+  let closedGroup: boolean | null = null; // Group that just closed, until the next token
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\\') {
+      i += 2;
+      closedGroup = null;
+      continue;
+    }
+
+    if (ch === '[') {
+      // Quantifier characters inside a class are literal
+      i = skipCharacterClass(source, i);
+      closedGroup = null;
+      continue;
+    }
+
+    if (ch === '(') {
+      groups.push(false);
+      i = skipGroupModifiers(source, i + 1);
+      closedGroup = null;
+      continue;
+    }
+
+    if (ch === ')') {
+      const inner = groups.pop() ?? false;
+      // A repeated inner quantifier makes the enclosing group risky too
+      if (inner && groups.length > 0) groups[groups.length - 1] = true;
+      closedGroup = inner;
+      i++;
+      continue;
+    }
+
+    const quantifier = readQuantifier(source, i);
+    if (quantifier) {
+      if (quantifier.unbounded) {
+        if (closedGroup) return true;
+        if (groups.length > 0) groups[groups.length - 1] = true;
+      }
+      i = quantifier.end;
+      closedGroup = null;
+      continue;
+    }
+
+    i++;
+    closedGroup = null;
+  }
+
+  return false;
+}
+
+/**
+ * Source of an alternative's first atom when it always consumes exactly one character
+ * (a literal, an escape like \d, a class or .), else null
+ */
+function readFirstAtom(alternative: string): string | null {
+  const ch = alternative[0];
+  if (ch === undefined || '()|^$*+?{'.includes(ch)) return null;
+
+  let atom: string;
+  if (ch === '\\') {
+    const escape = /^\\(?:[dDwWsStnrfv0]|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|[^A-Za-z0-9])/.exec(
+      alternative
+    );
+    if (!escape) return null; // Anchors, backreferences and property escapes
+    atom = escape[0];
+  } else if (ch === '[') {
+    atom = alternative.slice(0, skipCharacterClass(alternative, 0));
+  } else {
+    atom = ch;
+  }
+
+  // An optional first atom lets the alternative start with whatever follows
+  const next = alternative[atom.length];
+  if (next === '?' || next === '*' || alternative.startsWith('{0', atom.length)) return null;
+  return atom;
+}
+
+/**
+ * Check if two first atoms can match the same character (unknown atoms are assumed to)
+ */
+function atomsOverlap(a: string | null, b: string | null, flags: string): boolean {
+  if (a === null || b === null) return true;
+
+  try {
+    const matchesA = new RegExp(`^(?:${a})$`, flags);
+    const matchesB = new RegExp(`^(?:${b})$`, flags);
+    return PROBE_CHARS.some((ch) => matchesA.test(ch) && matchesB.test(ch));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Check for a group repeated without bound whose alternatives can start with the same
+ * character, e.g. (a|aa)+ or (\w|\d)*: a failing match tries every way of splitting the input
+ */
+export function hasOverlappingAlternation(source: string, flags: string = ''): boolean {
+  const atomFlags = [...flags].filter((flag) => 'isu'.includes(flag)).join('');
+  const groups: { start: number; bars: number[] }[] = []; // Per open group: where its alternatives split
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\\') {
+      i += 2;
+    } else if (ch === '[') {
+      i = skipCharacterClass(source, i);
+    } else if (ch === '(') {
+      i = skipGroupModifiers(source, i + 1);
+      groups.push({ start: i, bars: [] });
+    } else if (ch === '|') {
+      groups[groups.length - 1]?.bars.push(i);
+      i++;
+    } else if (ch === ')') {
+      const group = groups.pop();
+      const close = i++;
+      if (group && group.bars.length > 0 && readQuantifier(source, i)?.unbounded) {
+        const bounds = [group.start - 1, ...group.bars, close];
+        const atoms = bounds
+          .slice(1)
+          .map((end, k) => readFirstAtom(source.slice(bounds[k] + 1, end)));
+        const overlapping = atoms.some((a, k) =>
+          atoms.slice(k + 1).some((b) => atomsOverlap(a, b, atomFlags))
+        );
+        if (overlapping) return true;
+      }
+    } else {
+      i++;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Why a regex can backtrack catastrophically, or null if it can't (as far as we can tell)
+ */
+function findBacktrackingRisk(source: string, flags?: string): string | null {
+  if (hasNestedQuantifier(source)) return NESTED_QUANTIFIER_RISK;
+  if (hasOverlappingAlternation(source, flags)) return OVERLAPPING_ALTERNATION_RISK;
+  return null;
+}
+
+/**
+ * List the risks of a regex (assumed to compile)
+ */
+export function analyzeRegex(source: string, flags?: string): string[] {
+  const warnings: string[] = [];
+
+  if (new RegExp(`^(?:${source})$`, normalizeFlags(flags).replace('g', '')).test('')) {
+    warnings.push('Can match empty text; empty matches are skipped, so use + instead of * where you mean "at least one"');
+  }
+
+  if (flags && flags.includes('y')) {
+    warnings.push('The sticky (y) flag is ignored');
+  }
+
+  if (!hasSecretGroup(source) && /\(\?<[A-Za-z_$]/.test(source)) {
+    warnings.push(
+      `Only a group named "${SECRET_GROUP}" limits masking, e.g. (?<${SECRET_GROUP}>\\w+); the whole match will be masked`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Compile a user regex with normalized flags
+ * @throws Error if the regex doesn't compile or can backtrack catastrophically
+ */
+export function compileSafeRegex(source: string, flags?: string): SafeRegex {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, normalizeFlags(flags, source));
+  } catch (error) {
+    throw new Error('Invalid regex pattern');
+  }
+
+  const risk = findBacktrackingRisk(source, flags);
+  if (risk) {
+    throw new Error(risk);
+  }
+  return { regex, warnings: analyzeRegex(source, flags) };
+}
+
+/**
+ * Compile a user regex that must match a whole value (allowlist entries)
+ * @throws Error if the regex doesn't compile or can backtrack catastrophically
+ */
+export function compileWholeValueRegex(source: string): RegExp {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(`^(?:${source})$`);
+  } catch (error) {
+    throw new Error('Invalid regex pattern');
+  }
+
+  const risk = findBacktrackingRisk(source);
+  if (risk) {
+    throw new Error(risk);
+  }
+  return regex;
+}
@@ -0,0 +1,183 @@
+/**
+ * Pattern self-test
+ * Runs every pattern and scanner over its own must-match and must-not-match samples, one
+ * at a time, through the full detection pipeline (validators, allowlist, context scoring),
+ * so a pattern change that breaks detection shows up before it ships
+ */
+
+import type {
+  CustomPattern,
+  PatternOverrides,
+  SecretPattern,
+  SecretScanner,
+} from '@/types/patterns';
+import { getConfidenceLevel } from './context';
+import { SECRET_PATTERNS, SECRET_SCANNERS, detectSecretPatterns } from './detector';
+
+// Stand-in ID for a custom pattern that hasn't been saved yet
+export const UNSAVED_PATTERN_ID = 'custom_selftest';
+
+/**
+ * Sample the pattern got wrong
+ */
+export interface SelfTestFailure {
+  patternKey: string; // Built-in key or custom pattern ID
+  patternName: string;
+  sample: string;
+  expected: 'match' | 'no-match';
+  masked?: string; // For no-match failures: the value that was masked
+}
+
+/**
+ * Outcome of a self-test run
+ */
+export interface SelfTestReport {
+  patterns: number;
+  samples: number;
+  failures: SelfTestFailure[];
+}
+
+/**
+ * Overrides that turn off every built-in detector except one (none for custom patterns)
+ * A scanner keeps the regex patterns on, since the decoder rescans decoded text with them
+ */
+export function isolatingOverrides(key?: string): PatternOverrides {
+  const keepPatterns = key !== undefined && key in SECRET_SCANNERS;
+  const overrides: PatternOverrides = {};
+  [
+    ...(keepPatterns ? [] : Object.keys(SECRET_PATTERNS)),
+    ...Object.keys(SECRET_SCANNERS),
+  ].forEach((other) => {
+    if (other !== key) overrides[other] = { enabled: false };
+  });
+  return overrides;
+}
+
+/**
+ * Values the pattern would mask in a sample (warn-level matches aren't masked)
+ */
+function findMasked(
+  sample: string,
+  key: string,
+  category: string,
+  customPatterns: CustomPattern[],
+  overrides: PatternOverrides
+): string[] {
+  return detectSecretPatterns(sample, { [category]: true }, customPatterns, {
+    patternOverrides: overrides,
+  })
+    .matches.filter(
+      (match) => match.patternKey === key && getConfidenceLevel(match.confidence) === 'mask'
+    )
+    .map((match) => match.value);
+}
+
+/**
+ * Check one pattern against its samples
+ */
+function testSamples(
+  key: string,
+  name: string,
+  shouldMatch: string[],
+  shouldNotMatch: string[],
+  detect: (sample: string) => string[]
+): SelfTestFailure[] {
+  const failures: SelfTestFailure[] = [];
+
+  shouldMatch.forEach((sample) => {
+    if (detect(sample).length === 0) {
+      failures.push({ patternKey: key, patternName: name, sample, expected: 'match' });
+    }
+  });
+
+  shouldNotMatch.forEach((sample) => {
+    const [masked] = detect(sample);
+    if (masked !== undefined) {
+      failures.push({ patternKey: key, patternName: name, sample, expected: 'no-match', masked });
+    }
+  });
+
+  return failures;
+}
+
+/**
+ * Positive samples of a built-in detector: its catalog example plus shouldMatch
+ */
+function positiveSamples(pattern: SecretPattern | SecretScanner): string[] {
+  return [...(pattern.example ? [pattern.example] : []), ...(pattern.shouldMatch || [])];
+}
+
+/**
+ * Test a custom pattern against its own samples, alone (built-ins off)
+ * Works for unsaved patterns; a disabled pattern is tested as if it were on
+ */
+export function testCustomPattern(
+  pattern: Omit<CustomPattern, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+): SelfTestFailure[] {
+  const candidate: CustomPattern = {
+    createdAt: 0,
+    updatedAt: 0,
+    ...pattern,
+    id: pattern.id || UNSAVED_PATTERN_ID,
+    enabled: true,
+    timedOut: false,
+  };
+  const overrides = isolatingOverrides();
+
+  return testSamples(
+    candidate.id,
+    candidate.name,
+    candidate.shouldMatch || [],
+    candidate.shouldNotMatch || [],
+    (sample) => findMasked(sample, candidate.id, candidate.category, [candidate], overrides)
+  );
+}
+
+/**
+ * Run every built-in detector and custom pattern over its samples
+ */
+export function runSelfTest(customPatterns: CustomPattern[] = []): SelfTestReport {
+  let patterns = 0;
+  let samples = 0;
+  const failures: SelfTestFailure[] = [];
+
+  const detectors: [string, SecretPattern | SecretScanner][] = [
+    ...Object.entries(SECRET_PATTERNS),
+    ...Object.entries(SECRET_SCANNERS),
+  ];
+
+  detectors.forEach(([key, detector]) => {
+    const shouldMatch = positiveSamples(detector);
+    const shouldNotMatch = detector.shouldNotMatch || [];
+    if (shouldMatch.length + shouldNotMatch.length === 0) return;
+
+    const overrides = isolatingOverrides(key);
+    patterns++;
+    samples += shouldMatch.length + shouldNotMatch.length;
+    failures.push(
+      ...testSamples(key, detector.name, shouldMatch, shouldNotMatch, (sample) =>
+        findMasked(sample, key, detector.category, [], overrides)
+      )
+    );
+  });
+
+  customPatterns.forEach((pattern) => {
+    const count = (pattern.shouldMatch?.length || 0) + (pattern.shouldNotMatch?.length || 0);
+    if (count === 0) return;
+
+    patterns++;
+    samples += count;
+    failures.push(...testCustomPattern(pattern));
+  });
+
+  return { patterns, samples, failures };
+}
+
+/**
+ * One-line explanation of a failure
+ */
+export function describeSelfTestFailure(failure: SelfTestFailure): string {
+  return failure.expected === 'match'
+    ? `${failure.patternName}: should mask "${failure.sample}" but doesn't`
+    : `${failure.patternName}: shouldn't mask "${failure.sample}" but masks "${failure.masked}"`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Masking strategies other than the masking mode's placeholders/synthetic values
+ *   partial  sk-...9f2c                 which key is in use, for debugging
+ *   hash     [AWS_KEY hash:1a2b3c4d]    compare values without seeing them
+ *   env      ${AWS_SECRET_ACCESS_KEY}   the AI writes config code that reads the environment
+ *   redact   [PRIVATE_KEY removed]      nothing of the value is kept
+ * Like synthetic values, only the labelled parts of a match are replaced: password = "[PASS]"
+ * keeps `password = "`. partial and hash are restorable while they are unique; env and redact
+ * are never restored (an env reference is meant to stay in the code, a removed value has
+ * nothing to point to)
+ */
+
+import type { MaskingStrategy, PatternMatch } from '@/types/patterns';
+import { getSessionDigest } from './placeholders';
+import { alignLabels, findVendorPrefix } from './synthetic';
+
+/**
+ * Masked form of a match and whether restoring it is safe
+ */
+export interface StrategyResult {
+  masked: string;
+  restorable: boolean;
+}
+
+const HASH_LENGTH = 8;
+
+// Values shorter than this keep no suffix in partial reveals
+const MIN_SUFFIX_LENGTH = 12;
+
+// Masked forms handed out this session → value, so two values never share one
+const valuesByMasked = new Map<string, string>();
+
+/**
+ * Claim a masked form for a value; false if another value already has it
+ */
+function claim(masked: string, value: string): boolean {
+  const owner = valuesByMasked.get(masked);
+  if (owner !== undefined) return owner === value;
+  valuesByMasked.set(masked, value);
+  return true;
+}
+
+/**
+ * Environment variable name: the key the value is assigned to when it names the secret
+ * (client_secret → CLIENT_SECRET), otherwise the label (a bare `key` → AWS_KEY)
+ */
+function toEnvName(label: string, contextKey?: string): string {
+  const key = (contextKey || '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+  const name = key.includes('_') ? key : label.replace(/-/g, '_');
+  return /^[A-Z]/.test(name) ? name : `SECRET_${name}`;
+}
+
+function partialReveal(value: string): StrategyResult {
+  const prefix = findVendorPrefix(value);
+  const suffix = value.length >= MIN_SUFFIX_LENGTH ? value.slice(-4) : '';
+  // Short values all look alike (...), so only distinct reveals are restored
+  return { masked: `${prefix}...${suffix}`, restorable: suffix !== '' };
+}
+
+function hashReference(label: string, value: string): StrategyResult {
+  const digest = getSessionDigest(value);
+
+  // Lengthen the hash in the unlikely case two values share a prefix of it
+  for (let length = HASH_LENGTH; length <= digest.length; length += 4) {
+    const masked = `[${label} hash:${digest.slice(0, length)}]`;
+    if (claim(masked, value)) return { masked, restorable: true };
+  }
+  return { masked: `[${label} hash:${digest}]`, restorable: false };
+}
+
+function envReference(name: string, value: string): StrategyResult {
+  // Distinct values under the same name get numbered names: ${API_KEY_2}
+  for (let n = 1; ; n++) {
+    const masked = n === 1 ? `\${${name}}` : `\${${name}_${n}}`;
+    if (claim(masked, value)) return { masked, restorable: false };
+  }
+}
+
+/**
+ * Apply a strategy other than 'default' to a match
+ * @param replacement - The match's rendered replacement (labels without IDs)
+ */
+export function applyMaskingStrategy(
+  strategy: Exclude<MaskingStrategy, 'default'>,
+  match: PatternMatch,
+  replacement: string
+): StrategyResult {
+  const parts = alignLabels(match.value, replacement);
+  const secretParts = parts.filter((part) => part.label).length;
+  let restorable = true;
+
+  const masked = parts
+    .map(({ text, label }) => {
+      if (!label) return text;
+
+      let result: StrategyResult;
+      switch (strategy) {
+        case 'partial':
+          result = partialReveal(text);
+          break;
+        case 'hash':
+          result = hashReference(label, text);
+          break;
+        case 'env':
+          // The key name only describes the value when the match has a single secret
+          result = envReference(toEnvName(label, secretParts === 1 ? match.contextKey : undefined), text);
+          break;
+        case 'redact':
+          result = { masked: `[${label} removed]`, restorable: false };
+          break;
+      }
+
+      restorable = restorable && result.restorable;
+      return result.masked;
+    })
+    .join('');
+
+  // The whole masked form must point to a single value to be restored
+  return { masked, restorable: restorable && claim(masked, match.value) };
+}
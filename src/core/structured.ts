@@ -0,0 +1,198 @@
+/**
+ * Structured-format-aware detection for pasted config files
+ * Recognizes .env, JSON, YAML, TOML and INI, then masks values of sensitive keys
+ * Only the value is replaced - keys, quotes, comments and layout stay intact
+ */
+
+import type { ScannerMatch } from '@/types/patterns';
+import { classifyKeyName, splitKeyName } from './context';
+
+export type ConfigFormat = 'env' | 'json' | 'yaml' | 'toml' | 'ini';
+
+/**
+ * Key/value entry located in the source text
+ */
+export interface ConfigEntry {
+  key: string;
+  value: string;
+  index: number; // Offset of the value (inside quotes, if quoted)
+}
+
+// Share of content lines that must be key/value lines to treat text as config
+const MIN_ENTRY_RATIO = 0.6;
+const MIN_ENTRIES = 2;
+
+const COMMENT_LINE_REGEX = /^\s*(?:#|;|\/\/)/;
+const SECTION_LINE_REGEX = /^\s*\[{1,2}[^\]\n]+\]{1,2}\s*$/;
+
+// Groups: indent, key quote, key, separator, rest of line
+const LINE_REGEX: Record<Exclude<ConfigFormat, 'json'>, RegExp> = {
+  env: /^(\s*(?:export\s+)?)()([A-Za-z_][A-Za-z0-9_.-]*)(=\s*)(.*)$/,
+  yaml: /^(\s*(?:-\s+)?)(["']?)([A-Za-z0-9_$][\w.$ -]*?)\2(\s*:(?:\s+|$))(.*)$/,
+  toml: /^(\s*)(["']?)([A-Za-z0-9_][\w.-]*?)\2(\s*=\s*)(.*)$/,
+  ini: /^(\s*)()([A-Za-z0-9_][\w. -]*?)(\s*[=:]\s*)(.*)$/,
+};
+
+const JSON_PAIR_REGEX = /"((?:[^"\\\n]|\\.)*)"\s*:\s*"((?:[^"\\\n]|\\.)*)"/g;
+
+// Values that are clearly not secrets (references, placeholders, literals)
+const NON_SECRET_VALUE_REGEX =
+  /^(?:true|false|null|none|nil|yes|no|on|off|~|\*+|x+|\$\{?[A-Za-z_][\w.:-]*\}?|\{\{.*\}\}|<[^>]*>|%\([^)]*\)s|\[[A-Z0-9_-]+(?:#[a-z0-9]+)?\])$/i;
+
+/**
+ * Guess the config format of pasted text (null if it doesn't look like config)
+ */
+export function detectConfigFormat(text: string): ConfigFormat | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (/^[{[]/.test(trimmed) && /"[^"\n]+"\s*:/.test(trimmed)) {
+    return 'json';
+  }
+
+  const lines = trimmed
+    .split('\n')
+    .filter((line) => line.trim() && !COMMENT_LINE_REGEX.test(line));
+  if (lines.length === 0) return null;
+
+  const hasSections = lines.some((line) => SECTION_LINE_REGEX.test(line));
+  const candidates: Exclude<ConfigFormat, 'json'>[] = hasSections
+    ? ['toml', 'ini']
+    : ['env', 'yaml', 'toml'];
+
+  // Pick the format that explains the most lines (earlier candidates win ties)
+  let best: { format: Exclude<ConfigFormat, 'json'>; entries: number } | null = null;
+
+  for (const format of candidates) {
+    const structural = lines.filter(
+      (line) =>
+        LINE_REGEX[format].test(line) ||
+        (hasSections && SECTION_LINE_REGEX.test(line)) ||
+        (format === 'yaml' && /^\s*-\s/.test(line))
+    ).length;
+    const entries = lines.filter((line) => LINE_REGEX[format].test(line)).length;
+
+    if (
+      entries >= MIN_ENTRIES &&
+      structural / lines.length >= MIN_ENTRY_RATIO &&
+      (!best || entries > best.entries)
+    ) {
+      best = { format, entries };
+    }
+  }
+
+  return best ? best.format : null;
+}
+
+/**
+ * Extract the value part of a line (strips quotes and inline comments)
+ * @returns Value and its offset within `raw`, or null for block/complex values
+ */
+export function extractValue(
+  raw: string,
+  format: Exclude<ConfigFormat, 'json'>
+): { value: string; offset: number } | null {
+  const quote = raw[0];
+
+  if (quote === '"' || quote === "'" || quote === '`') {
+    let end = 1;
+    while (end < raw.length && raw[end] !== quote) {
+      if (raw[end] === '\\' && quote === '"') end++;
+      end++;
+    }
+    if (end >= raw.length) return null;
+    return { value: raw.substring(1, end), offset: 1 };
+  }
+
+  // YAML block scalars, flow collections, anchors/aliases and tags
+  if (format === 'yaml' && /^[|>{[&*!]/.test(raw)) return null;
+  if (format === 'toml' && /^[{[]/.test(raw)) return null;
+
+  const commentStart = format === 'ini' ? raw.search(/\s[#;]/) : raw.search(/\s#/);
+  const value = (commentStart === -1 ? raw : raw.substring(0, commentStart)).trimEnd();
+  return { value, offset: 0 };
+}
+
+/**
+ * Parse key/value entries of a recognized config format
+ */
+export function parseConfigEntries(text: string, format: ConfigFormat): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+
+  if (format === 'json') {
+    const regex = new RegExp(JSON_PAIR_REGEX.source, JSON_PAIR_REGEX.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      const value = match[2];
+      entries.push({
+        key: match[1],
+        value,
+        index: match.index + match[0].length - 1 - value.length,
+      });
+    }
+    return entries;
+  }
+
+  const lineRegex = LINE_REGEX[format];
+  let lineStart = 0;
+
+  for (const line of text.split('\n')) {
+    if (!COMMENT_LINE_REGEX.test(line)) {
+      const match = line.match(lineRegex);
+      if (match) {
+        const [, indent, quote, key, separator, rest] = match;
+        const extracted = extractValue(rest, format);
+        if (extracted) {
+          const restStart = indent.length + quote.length * 2 + key.length + separator.length;
+          entries.push({
+            key: key.trim(),
+            value: extracted.value,
+            index: lineStart + restStart + extracted.offset,
+          });
+        }
+      }
+    }
+    lineStart += line.length + 1;
+  }
+
+  return entries;
+}
+
+/**
+ * Placeholder label for a sensitive key
+ */
+function labelForKey(key: string): string {
+  const parts = splitKeyName(key);
+  if (parts.some((part) => /^(?:pass|passwd|password|pwd|passphrase)$/.test(part))) {
+    return '[PASS]';
+  }
+  if (parts.some((part) => part === 'token' || part === 'tokens')) {
+    return '[TOKEN]';
+  }
+  return '[SECRET]';
+}
+
+/**
+ * Check if value looks like real data rather than a reference or placeholder
+ */
+export function isMaskableValue(value: string): boolean {
+  return value.length >= 3 && !NON_SECRET_VALUE_REGEX.test(value.trim());
+}
+
+/**
+ * Scanner entry point: values of sensitive keys in pasted config files
+ */
+export function scanStructuredConfig(text: string): ScannerMatch[] {
+  const format = detectConfigFormat(text);
+  if (!format) return [];
+
+  return parseConfigEntries(text, format)
+    .filter((entry) => classifyKeyName(entry.key) === 'sensitive')
+    .filter((entry) => isMaskableValue(entry.value))
+    .map((entry) => ({
+      value: entry.value,
+      index: entry.index,
+      replacement: labelForKey(entry.key),
+      confidence: 0.85,
+    }));
+}
@@ -0,0 +1,58 @@
+/**
+ * Inline suppression markers, linter style
+ * `clipguard:allow` suppresses its own line; `clipguard:disable` … `clipguard:enable`
+ * suppresses everything in between, marker lines included
+ */
+
+/**
+ * Suppressed region of the scanned text
+ */
+export interface SuppressedRange {
+  start: number;
+  end: number;
+}
+
+const MARKER_REGEX = /clipguard:(allow|disable|enable)\b/gi;
+
+/**
+ * Find regions suppressed by markers (an unterminated disable runs to the end)
+ */
+export function findSuppressedRanges(text: string): SuppressedRange[] {
+  if (!/clipguard:/i.test(text)) return [];
+
+  const ranges: SuppressedRange[] = [];
+  let blockStart = -1;
+  let lineStart = 0;
+
+  for (const line of text.split('\n')) {
+    const lineEnd = lineStart + line.length;
+
+    for (const marker of line.matchAll(MARKER_REGEX)) {
+      const directive = marker[1].toLowerCase();
+
+      if (directive === 'allow') {
+        ranges.push({ start: lineStart, end: lineEnd });
+      } else if (directive === 'disable' && blockStart === -1) {
+        blockStart = lineStart;
+      } else if (directive === 'enable' && blockStart !== -1) {
+        ranges.push({ start: blockStart, end: lineEnd });
+        blockStart = -1;
+      }
+    }
+
+    lineStart = lineEnd + 1;
+  }
+
+  if (blockStart !== -1) {
+    ranges.push({ start: blockStart, end: text.length });
+  }
+
+  return ranges;
+}
+
+/**
+ * Check if a match starting at index lies in a suppressed region
+ */
+export function isSuppressed(ranges: SuppressedRange[], index: number): boolean {
+  return ranges.some((range) => index >= range.start && index <= range.end);
+}
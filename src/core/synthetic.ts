@@ -0,0 +1,186 @@
+/**
+ * Format-preserving synthetic substitutes
+ * Swaps a secret for a fake of the same shape (prefix, length, charset) so code that
+ * contains it still parses and the AI doesn't try to "fix" a bracket placeholder
+ */
+
+const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const DIGITS = '0123456789';
+
+// Known prefixes without a separator (prefixes like ghp_, sk-, xoxb- are found generically)
+const KNOWN_PREFIXES = [
+  'AKIA', 'ASIA', 'AGPA', 'AIDA', 'AROA', 'AIPA', 'ANPA', 'ANVA', 'A3T', 'AIza', 'SG.',
+];
+
+// Values shorter than this (e.g. passwords) are randomized whole, prefix included
+const MIN_PREFIXED_LENGTH = 16;
+
+// Labels as they appear in built-in replacements: [PASS], [USER], …
+const LABEL_REGEX = /\[[A-Z0-9_-]+\]/g;
+
+// Fakes handed out this session: replacement + value → fake
+const fakesByValue = new Map<string, string>();
+const usedFakes = new Set<string>();
+
+function randomChar(alphabet: string): string {
+  return alphabet.charAt(Math.floor(Math.random() * alphabet.length));
+}
+
+/**
+ * Replace every letter/digit with a random one of the same class; other characters stay
+ * Hex strings stay hex
+ */
+function randomizeChars(value: string): string {
+  const hexAlphabet = /^[0-9a-f]+$/.test(value)
+    ? DIGITS + 'abcdef'
+    : /^[0-9A-F]+$/.test(value)
+      ? DIGITS + 'ABCDEF'
+      : null;
+
+  return Array.from(value, (ch) => {
+    if (hexAlphabet) return randomChar(hexAlphabet);
+    if (ch >= 'A' && ch <= 'Z') return randomChar(UPPER);
+    if (ch >= 'a' && ch <= 'z') return randomChar(LOWER);
+    if (ch >= '0' && ch <= '9') return randomChar(DIGITS);
+    return ch;
+  }).join('');
+}
+
+/**
+ * Leading vendor prefix to keep (AKIA, ghp_, sk_live_, xoxb-, …), or ''
+ */
+export function findVendorPrefix(value: string): string {
+  if (value.length < MIN_PREFIXED_LENGTH) return '';
+
+  const known = KNOWN_PREFIXES.find((prefix) => value.startsWith(prefix));
+  if (known) return known;
+
+  const separated = value.match(/^(?:[A-Za-z]{1,10}[_-]){1,2}/);
+  return separated && separated[0].length <= 12 ? separated[0] : '';
+}
+
+function base64UrlEncode(text: string): string {
+  return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Well-formed dummy JWT: original header (algorithm only), synthetic claims,
+ * random signature of the same length
+ */
+function syntheticJwt(value: string): string {
+  const [header, , signature] = value.split('.');
+  const claims = base64UrlEncode(
+    JSON.stringify({ sub: randomizeChars('0000000000'), iat: Math.floor(Date.now() / 1000) })
+  );
+  return `${header}.${claims}.${randomizeChars(signature)}`;
+}
+
+/**
+ * PEM block with the same armor and line layout and a random base64 body
+ */
+function syntheticPem(value: string): string {
+  return value
+    .split('\n')
+    .map((line) => (line.startsWith('-----') || line.includes(':') ? line : randomizeChars(line)))
+    .join('\n');
+}
+
+/**
+ * Fake value with the same shape as a single secret
+ */
+export function synthesizeValue(value: string): string {
+  if (/^eyJ[\w-]*\.eyJ[\w-]*\.[\w-]*$/.test(value)) {
+    return syntheticJwt(value);
+  }
+
+  if (/^-----BEGIN [A-Z ]+-----/.test(value)) {
+    return syntheticPem(value);
+  }
+
+  const prefix = findVendorPrefix(value);
+  return prefix + randomizeChars(value.slice(prefix.length));
+}
+
+/**
+ * Fake for a whole match, using its replacement to find the secret parts
+ * A replacement like `postgres://[USER]:[PASS]@[HOST]/app` keeps the literal parts of
+ * the match and only fakes the labelled ones; if it can't be aligned, the whole match is faked
+ * A repeated secret keeps its fake for the session; a new fake is never one already
+ * handed out or already in the text
+ */
+export function synthesizeMatch(value: string, replacement: string, text: string): string {
+  const valueKey = `${replacement}\0${value}`;
+  const known = fakesByValue.get(valueKey);
+  if (known) return known;
+
+  let fake: string | null = null;
+  for (let attempt = 0; attempt < 5 && !fake; attempt++) {
+    const candidate = alignLabels(value, replacement)
+      .map((part) => (part.label ? synthesizeValue(part.text) : part.text))
+      .join('');
+
+    if (candidate !== value && !usedFakes.has(candidate) && !text.includes(candidate)) {
+      fake = candidate;
+    }
+  }
+
+  // Practically unreachable; fall back to a fake with a marker that can't collide
+  if (!fake) fake = `${synthesizeValue(value)}_${usedFakes.size}`;
+
+  fakesByValue.set(valueKey, fake);
+  usedFakes.add(fake);
+  return fake;
+}
+
+/**
+ * Part of a match: literal text from the replacement, or a secret under a label
+ */
+export interface MatchPart {
+  text: string;
+  label?: string; // Set on secret parts
+}
+
+/**
+ * Split a match into literal and secret parts following its replacement's labels
+ * e.g. `password = "hunter2"` with `password = "[PASS]"` → literal, PASS secret, literal
+ * If the replacement can't be aligned, the whole match is one secret under the first label
+ */
+export function alignLabels(value: string, replacement: string): MatchPart[] {
+  const labels = Array.from(replacement.matchAll(LABEL_REGEX), (match) => match[0].slice(1, -1));
+  const literals = replacement.split(LABEL_REGEX);
+  // Labels with hints ([TOKEN len=40]) aren't split on, but still name the whole match
+  const firstLabel = replacement.match(/\[([A-Z0-9_-]+)/);
+  const whole = [{ text: value, label: firstLabel ? firstLabel[1] : 'SECRET' }];
+  if (literals.length < 2) return whole;
+
+  const first = literals[0];
+  const last = literals[literals.length - 1];
+  if (!value.startsWith(first) || !value.endsWith(last) || first.length + last.length > value.length) {
+    return whole;
+  }
+
+  const parts: MatchPart[] = [];
+  if (first) parts.push({ text: first });
+
+  let cursor = first.length;
+  const end = value.length - last.length;
+
+  for (let i = 1; i < literals.length - 1; i++) {
+    const literal = literals[i];
+    // Adjacent labels can't be told apart; their secrets are treated as one
+    if (!literal) continue;
+
+    const found = value.indexOf(literal, cursor);
+    if (found === -1 || found > end) return whole;
+
+    parts.push({ text: value.slice(cursor, found), label: labels[i - 1] });
+    parts.push({ text: literal });
+    cursor = found + literal.length;
+  }
+
+  parts.push({ text: value.slice(cursor, end), label: labels[labels.length - 1] });
+  if (last) parts.push({ text: last });
+
+  return parts.filter((part) => part.text.length > 0);
+}
@@ -0,0 +1,154 @@
+/**
+ * Replacement templates for custom patterns
+ * Placeholders can carry non-secret hints about the masked value, e.g.
+ * [INTERNAL_TOKEN len={len} ...{suffix:4}] → [INTERNAL_TOKEN len=40 ...a9f2]
+ *
+ * Variables:
+ *   {len}        length of the secret
+ *   {n}          occurrence index of the pattern in the paste (1, 2, …)
+ *   {prefix:N}   first N characters
+ *   {suffix:N}   last N characters
+ *   {sha256:N}   first N hex characters of the secret's SHA-256
+ *
+ * {{ and }} stand for literal braces
+ */
+
+import { sha256Hex } from './hash';
+
+type TemplatePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'len' }
+  | { kind: 'n' }
+  | { kind: 'prefix' | 'suffix' | 'sha256'; count: number };
+
+// Longest value each sized variable accepts
+const MAX_COUNT: Record<'prefix' | 'suffix' | 'sha256', number> = {
+  prefix: 8,
+  suffix: 8,
+  sha256: 64,
+};
+
+// Variables that reveal value-derived text; kept out of the label so numbering still works
+const VALUE_VARIABLES = ['prefix', 'suffix', 'sha256'];
+
+/**
+ * Check if a replacement uses template variables
+ */
+export function isReplacementTemplate(replacement: string): boolean {
+  return /\{[^}]*\}/.test(replacement);
+}
+
+/**
+ * Escape braces so text renders as typed
+ */
+export function escapeReplacementTemplate(text: string): string {
+  return text.replace(/[{}]/g, '$&$&');
+}
+
+/**
+ * Parse a template into text and variable parts
+ * @throws Error describing the first invalid variable
+ */
+export function parseReplacementTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  const pushText = (text: string) => {
+    parts.push({ kind: 'text', text: text.replace(/\}\}/g, '}') });
+  };
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    if (open === -1) {
+      pushText(template.slice(i));
+      break;
+    }
+    if (open > i) {
+      pushText(template.slice(i, open));
+    }
+
+    // Escaped brace
+    if (template[open + 1] === '{') {
+      parts.push({ kind: 'text', text: '{' });
+      i = open + 2;
+      continue;
+    }
+
+    const close = template.indexOf('}', open);
+    if (close === -1) {
+      throw new Error('Unclosed { in replacement template');
+    }
+
+    const variable = template.slice(open + 1, close).trim();
+    const [name, countText] = variable.split(':');
+
+    if ((name === 'len' || name === 'n') && countText === undefined) {
+      parts.push({ kind: name });
+    } else if (name === 'prefix' || name === 'suffix' || name === 'sha256') {
+      const count = Number(countText);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT[name]) {
+        throw new Error(`{${name}:N} needs N between 1 and ${MAX_COUNT[name]}`);
+      }
+      parts.push({ kind: name, count });
+    } else {
+      throw new Error(`Unknown template variable {${variable}}`);
+    }
+
+    i = close + 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Validate a bracketed replacement template, e.g. [TOKEN len={len} ...{suffix:4}]
+ * @throws Error if a variable is invalid or value-derived text would end up in the label
+ */
+export function validateReplacementTemplate(replacement: string): void {
+  parseReplacementTemplate(replacement);
+
+  // The label (up to the first space) must stay uppercase for placeholder numbering
+  const label = replacement.split(/\s/)[0];
+  const labelVariable = VALUE_VARIABLES.find((name) => label.includes(`{${name}`));
+  if (labelVariable) {
+    throw new Error(
+      `Put {${labelVariable}:N} after a space, e.g. [TOKEN ...{${labelVariable}:4}]`
+    );
+  }
+}
+
+/**
+ * Revealed characters that would break the placeholder (brackets, whitespace) become ?
+ */
+function sanitizeReveal(text: string): string {
+  return text.replace(/[[\]\s]/g, '?');
+}
+
+/**
+ * Render a template for one masked value
+ * prefix/suffix are capped so together they never reveal more than half of the value
+ * @param n - Occurrence index of the pattern in the paste
+ */
+export function renderReplacementTemplate(template: string, value: string, n: number): string {
+  const revealLimit = Math.floor(value.length / 4);
+
+  return parseReplacementTemplate(template)
+    .map((part) => {
+      switch (part.kind) {
+        case 'text':
+          return part.text;
+        case 'len':
+          return String(value.length);
+        case 'n':
+          return String(n);
+        case 'prefix':
+          return sanitizeReveal(value.slice(0, Math.min(part.count, revealLimit)));
+        case 'suffix': {
+          const count = Math.min(part.count, revealLimit);
+          return count > 0 ? sanitizeReveal(value.slice(-count)) : '';
+        }
+        case 'sha256':
+          return sha256Hex(value).slice(0, part.count);
+      }
+    })
+    .join('');
+}
@@ -0,0 +1,108 @@
+/**
+ * Checksum and structural validators for built-in patterns
+ * Each validator returns true (verified), false (reject as false positive)
+ * or undefined (format can't be checked, keep the match unverified)
+ */
+
+const BASE62_ALPHABET =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+let crc32Table: number[] | null = null;
+
+/**
+ * Build (once) the CRC32 lookup table
+ */
+function getCrc32Table(): number[] {
+  if (crc32Table) return crc32Table;
+
+  crc32Table = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crc32Table.push(c >>> 0);
+  }
+  return crc32Table;
+}
+
+/**
+ * Calculate CRC32 of an ASCII string
+ */
+export function crc32(str: string): number {
+  const table = getCrc32Table();
+  let crc = 0xffffffff;
+  for (let i = 0; i < str.length; i++) {
+    crc = table[(crc ^ str.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode number in base62, left-padded with zeros
+ */
+function toBase62(value: number, width: number): string {
+  let result = '';
+  let n = value;
+  do {
+    result = BASE62_ALPHABET[n % 62] + result;
+    n = Math.floor(n / 62);
+  } while (n > 0);
+  return result.padStart(width, '0');
+}
+
+/**
+ * Decode base64url (or base64) string, null if malformed
+ */
+function decodeBase64Url(str: string): string | null {
+  try {
+    const normalized = str.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+    return atob(padded);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GitHub tokens (ghp_, gho_, ...): 30 random chars + 6-char base62 CRC32 suffix
+ * Older/shorter formats carry no checksum and stay unverified
+ */
+export function validateGithubToken(match: string): boolean | undefined {
+  const body = match.substring(match.indexOf('_') + 1);
+  if (body.length !== 36) return undefined;
+
+  const random = body.substring(0, 30);
+  const checksum = body.substring(30);
+  return toBase62(crc32(random), 6) === checksum;
+}
+
+/**
+ * JWT: header segment must decode to a JSON object with an alg field
+ */
+export function validateJwt(match: string): boolean {
+  const header = decodeBase64Url(match.split('.')[0]);
+  if (header === null) return false;
+
+  try {
+    const parsed = JSON.parse(header);
+    return typeof parsed === 'object' && parsed !== null && typeof parsed.alg === 'string';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * AWS access key IDs: 4-char prefix + 16 chars of the base32 alphabet (A-Z, 2-7)
+ */
+export function validateAwsAccessKey(match: string): boolean {
+  return /^[A-Z2-7]{16}$/.test(match.substring(4));
+}
+
+/**
+ * HTTP Basic credentials: token must decode to printable "user:password"
+ */
+export function validateBasicAuth(match: string): boolean {
+  const decoded = decodeBase64Url(match.replace(/^Basic\s+/, ''));
+  return decoded !== null && /^[\x20-\x7e]*:[\x20-\x7e]+$/.test(decoded);
+}
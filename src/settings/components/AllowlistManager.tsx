@@ -0,0 +1,329 @@
+/**
+ * Allowlist Manager Component
+ * Lets users mark known-safe values (exact or regex) that are never masked
+ */
+
+import { useState, useEffect } from 'react';
+import type { AllowlistEntry } from '@/types/patterns';
+import { SECRET_PATTERNS, SECRET_SCANNERS } from '@/core/detector';
+import { BUILTIN_ALLOWLIST } from '@/core/allowlist';
+import { compileWholeValueRegex } from '@/core/safeRegex';
+import { sendMessage } from '@/utils/messaging';
+
+interface AllowlistManagerProps {
+  onAllowlistChange?: () => void;
+}
+
+// Built-in detectors an entry can be scoped to
+const DETECTOR_OPTIONS = Object.entries({ ...SECRET_PATTERNS, ...SECRET_SCANNERS }).map(
+  ([key, detector]) => ({ key, name: detector.name })
+);
+
+/**
+ * Display name of a detector key (custom pattern keys are shown as-is)
+ */
+function detectorName(key: string): string {
+  return DETECTOR_OPTIONS.find((option) => option.key === key)?.name || key;
+}
+
+export default function AllowlistManager({ onAllowlistChange }: AllowlistManagerProps) {
+  const [entries, setEntries] = useState<AllowlistEntry[]>([]);
+  const [isAddingEntry, setIsAddingEntry] = useState(false);
+  const [showBuiltin, setShowBuiltin] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // Load entries on mount
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const loadEntries = async () => {
+    try {
+      const response = await sendMessage({ type: 'GET_ALLOWLIST' });
+      if (response.success) {
+        setEntries(response.data || []);
+      }
+    } catch (error) {
+      console.error('[Allowlist] Error loading entries:', error);
+    }
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+    try {
+      const response = await sendMessage({
+        type: 'DELETE_ALLOWLIST_ENTRY',
+        data: { id },
+      });
+
+      if (response.success) {
+        await loadEntries();
+        onAllowlistChange?.();
+      } else {
+        setError(response.error || 'Failed to delete entry');
+      }
+    } catch (error) {
+      setError('Failed to delete entry');
+    }
+  };
+
+  const handleSaveEntry = async () => {
+    await loadEntries();
+    setIsAddingEntry(false);
+    setError('');
+    onAllowlistChange?.();
+  };
+
+  return (
+    <div className="allowlist-manager">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-base font-semibold text-[var(--text-primary)]">
+          Allowlist
+        </h3>
+        <button
+          onClick={() => {
+            setIsAddingEntry(true);
+            setError('');
+          }}
+          className="px-3 py-1.5 text-sm font-bold bg-[var(--accent-primary)] text-white rounded-md hover:bg-[#1ED760] active:scale-95 transition-all shadow-sm"
+        >
+          + Add Value
+        </button>
+      </div>
+      <p className="text-sm text-[var(--text-secondary)] mb-4">
+        Known-safe values that are never masked (test fixtures, documentation keys)
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-md text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isAddingEntry && (
+        <AllowlistForm
+          onSave={handleSaveEntry}
+          onCancel={() => {
+            setIsAddingEntry(false);
+            setError('');
+          }}
+          onError={setError}
+        />
+      )}
+
+      <div className="space-y-2">
+        {entries.length === 0 && !isAddingEntry && (
+          <div className="text-center py-6 text-[var(--text-muted)]">
+            No allowlisted values yet. Click "Add Value" to create one.
+          </div>
+        )}
+
+        {entries.map((entry) => (
+          <AllowlistItem key={entry.id} entry={entry} onDelete={handleDeleteEntry} />
+        ))}
+      </div>
+
+      <button
+        onClick={() => setShowBuiltin(!showBuiltin)}
+        className="mt-4 text-xs text-[var(--text-muted)] hover:text-[var(--text-secondary)] transition-colors"
+      >
+        {showBuiltin ? '▾' : '▸'} Built-in vendor examples ({BUILTIN_ALLOWLIST.length})
+      </button>
+      {showBuiltin && (
+        <div className="mt-2 space-y-1">
+          {BUILTIN_ALLOWLIST.map((entry) => (
+            <code
+              key={entry.id}
+              className="block text-[var(--text-muted)] font-mono text-xs bg-[var(--bg-tertiary)] px-2 py-1 rounded break-all"
+            >
+              {entry.value}
+            </code>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AllowlistFormProps {
+  onSave: () => void;
+  onCancel: () => void;
+  onError: (error: string) => void;
+}
+
+function AllowlistForm({ onSave, onCancel, onError }: AllowlistFormProps) {
+  const [type, setType] = useState<AllowlistEntry['type']>('exact');
+  const [value, setValue] = useState('');
+  const [patternKey, setPatternKey] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    onError('');
+
+    // Validation
+    if (!value.trim()) {
+      onError('Value is required');
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (type === 'regex') {
+      try {
+        compileWholeValueRegex(value.trim());
+      } catch (err) {
+        onError(err instanceof Error ? err.message : 'Invalid regex syntax');
+        setIsSubmitting(false);
+        return;
+      }
+    }
+
+    try {
+      const entryData = {
+        type,
+        value: value.trim(),
+        ...(patternKey ? { patternKeys: [patternKey] } : {}),
+        ...(note.trim() ? { note: note.trim() } : {}),
+      };
+
+      const response = await sendMessage({
+        type: 'ADD_ALLOWLIST_ENTRY',
+        data: { entry: entryData },
+      });
+
+      if (response.success) {
+        onSave();
+      } else {
+        onError(response.error || 'Failed to save entry');
+      }
+    } catch (error) {
+      onError('Failed to save entry');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 p-4 bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded-lg">
+      <h4 className="text-sm font-semibold text-[var(--text-primary)] mb-4">
+        Add Allowlisted Value
+      </h4>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+            Match Type
+          </label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as AllowlistEntry['type'])}
+            className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)]"
+          >
+            <option value="exact">Exact value</option>
+            <option value="regex">Regex (must match the whole value)</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+            Value *
+          </label>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={type === 'exact' ? 'e.g., sk_test_fixture_123' : 'e.g., ghp_0{36}'}
+            className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+            Applies To
+          </label>
+          <select
+            value={patternKey}
+            onChange={(e) => setPatternKey(e.target.value)}
+            className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)]"
+          >
+            <option value="">All patterns</option>
+            {DETECTOR_OPTIONS.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+            Note
+          </label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g., Test fixture in payments repo"
+            className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-6">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-[var(--accent-primary)] text-white rounded-md text-sm font-bold hover:bg-[#1ED760] active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+        >
+          {isSubmitting ? 'Saving...' : 'Add Value'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-[var(--bg-tertiary)] text-[var(--text-primary)] border border-[var(--border-default)] rounded-md text-sm font-medium hover:bg-[var(--bg-elevated)] transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface AllowlistItemProps {
+  entry: AllowlistEntry;
+  onDelete: (id: string) => void;
+}
+
+function AllowlistItem({ entry, onDelete }: AllowlistItemProps) {
+  return (
+    <div className="p-3 bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded-lg">
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-xs px-2 py-0.5 rounded bg-[var(--bg-tertiary)] text-[var(--text-muted)] font-medium">
+              {entry.type === 'regex' ? 'Regex' : 'Exact'}
+            </span>
+            <code className="text-[var(--text-primary)] font-mono text-xs break-all">
+              {entry.value}
+            </code>
+          </div>
+          <p className="text-xs text-[var(--text-muted)]">
+            {entry.patternKeys && entry.patternKeys.length > 0
+              ? `Applies to: ${entry.patternKeys.map(detectorName).join(', ')}`
+              : 'Applies to all patterns'}
+            {entry.note && ` • ${entry.note}`}
+          </p>
+        </div>
+
+        <button
+          onClick={() => onDelete(entry.id)}
+          className="ml-4 px-3 py-1 text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20 rounded-md hover:bg-red-500/20 transition-colors"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,22 +2,26 @@
  * Category toggle component for pattern categories
  */
 
-import { useState } from 'react';
-
-interface PatternDetail {
-  name: string;
-  pattern: string;
-  maskedAs: string;
-}
+import { useLayoutEffect, useRef, useState } from 'react';
+import type { MaskingStrategy, PatternOverride, PatternOverrides } from '@/types/patterns';
+import type { PatternStats } from '@/background/storage';
+import type { CatalogPattern } from '@/core/catalog';
+import { StrategySelect } from './StrategySelect';
 
 interface CategoryToggleProps {
   name: string;
   label: string;
   description: string;
   enabled: boolean;
-  patterns: PatternDetail[];
+  patterns: CatalogPattern[];
   count: number;
+  strategy: MaskingStrategy;
+  patternStats: PatternStats;
+  overrides: PatternOverrides;
   onChange: (name: string, enabled: boolean) => void;
+  onStrategyChange: (name: string, strategy: MaskingStrategy) => void;
+  onOverrideChange: (key: string, updates: PatternOverride) => void;
+  maskExample: (example: string) => string;
 }
 
 export function CategoryToggle({
@@ -27,10 +31,23 @@ export function CategoryToggle({
   enabled,
   patterns,
   count,
+  strategy,
+  patternStats,
+  overrides,
   onChange,
+  onStrategyChange,
+  onOverrideChange,
+  maskExample,
 }: CategoryToggleProps) {
   const [expanded, setExpanded] = useState(false);
 
+  // Per-site counts of one pattern, busiest site first
+  const getSiteCounts = (key: string) =>
+    Object.entries(patternStats)
+      .map(([hostname, counts]) => [hostname, counts[key] || 0] as const)
+      .filter(([, count]) => count > 0)
+      .sort((a, b) => b[1] - a[1]);
+
   return (
     <div className="bg-bg-secondary rounded-lg border border-border-default">
       {/* Header */}
@@ -66,6 +83,13 @@ export function CategoryToggle({
             </button>
           </div>
           <p className="text-xs text-text-secondary mt-1">{description}</p>
+          <label className="flex items-center gap-2 mt-2 text-xs text-text-muted">
+            Mask as
+            <StrategySelect
+              value={strategy}
+              onChange={(value) => onStrategyChange(name, value)}
+            />
+          </label>
         </div>
         <button
           type="button"
@@ -84,20 +108,157 @@ export function CategoryToggle({
       {expanded && (
         <div className="px-4 pb-4 border-t border-border-subtle">
           <div className="mt-3 space-y-3">
-            {patterns.map((pattern, index) => (
-              <div key={index} className="pl-4 border-l-2 border-border-default">
-                <h4 className="text-xs font-medium text-text-primary">{pattern.name}</h4>
-                <p className="text-xs text-text-secondary mt-1">
-                  <span className="font-mono">{pattern.pattern}</span>
-                </p>
-                <p className="text-xs text-accent-secondary mt-1">
-                  Masked as: <span className="font-mono">{pattern.maskedAs}</span>
-                </p>
-              </div>
-            ))}
+            {patterns.length === 0 && (
+              <p className="text-xs text-text-muted">No patterns yet</p>
+            )}
+            {patterns.map((pattern) => {
+              // Overrides only apply to built-ins; custom patterns are switched in their manager
+              const override = pattern.custom ? undefined : overrides[pattern.key];
+              const patternEnabled = override?.enabled !== false && pattern.enabled !== false;
+
+              return (
+                <div
+                  key={pattern.key}
+                  className={`pl-4 border-l-2 border-border-default ${patternEnabled ? '' : 'opacity-50'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    {!pattern.custom && (
+                      <input
+                        type="checkbox"
+                        checked={patternEnabled}
+                        onChange={(e) => onOverrideChange(pattern.key, { enabled: e.target.checked })}
+                        aria-label={`Detect ${pattern.name}`}
+                        className="rounded border-border-strong"
+                      />
+                    )}
+                    <h4 className="text-xs font-medium text-text-primary">{pattern.name}</h4>
+                    <PatternCount siteCounts={getSiteCounts(pattern.key)} />
+                  </div>
+                  <p className="text-xs text-text-secondary mt-1">
+                    <span className="font-mono">{pattern.description}</span>
+                  </p>
+                  <p className="text-xs text-accent-secondary mt-1">
+                    Masked as: <span className="font-mono">{pattern.maskedAs}</span>
+                  </p>
+                  {pattern.example && (
+                    <ExampleDemo example={pattern.example} masked={maskExample(pattern.example)} />
+                  )}
+                  {!pattern.custom && (
+                    <PatternOverrideFields
+                      patternKey={pattern.key}
+                      override={override}
+                      onChange={onOverrideChange}
+                    />
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
     </div>
   );
 }
+
+/**
+ * Example input and how the current settings mask it
+ */
+function ExampleDemo({ example, masked }: { example: string; masked: string }) {
+  return (
+    <div className="mt-2 p-2 rounded bg-bg-tertiary text-xs font-mono whitespace-pre-wrap break-all">
+      <div className="text-text-muted">{example}</div>
+      {masked === example ? (
+        <div className="mt-1 font-sans text-text-muted">Not masked with the current settings</div>
+      ) : (
+        <div className="mt-1 text-accent-secondary">{masked}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Keep the characters a placeholder label allows, uppercased
+ */
+function sanitizeLabel(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9_-]/g, '');
+}
+
+/**
+ * Label and priority overrides of one built-in pattern, saved when a field loses focus
+ */
+function PatternOverrideFields({
+  patternKey,
+  override,
+  onChange,
+}: {
+  patternKey: string;
+  override?: PatternOverride;
+  onChange: (key: string, updates: PatternOverride) => void;
+}) {
+  const [label, setLabel] = useState(override?.label || '');
+  const labelInput = useRef<HTMLInputElement>(null);
+  const labelCaret = useRef<number | null>(null);
+
+  // Sanitizing replaces the input's value, which would move the caret to the end
+  useLayoutEffect(() => {
+    if (labelCaret.current !== null && labelInput.current) {
+      labelInput.current.setSelectionRange(labelCaret.current, labelCaret.current);
+      labelCaret.current = null;
+    }
+  });
+
+  return (
+    <div className="flex items-center gap-3 mt-2">
+      <label className="flex items-center gap-1 text-xs text-text-muted">
+        Label
+        <input
+          ref={labelInput}
+          type="text"
+          value={label}
+          placeholder="Default"
+          onChange={(e) => {
+            const { value, selectionStart } = e.target;
+            labelCaret.current = sanitizeLabel(value.slice(0, selectionStart ?? value.length)).length;
+            setLabel(sanitizeLabel(value));
+          }}
+          onBlur={() => {
+            // An empty label drops the override (see handlePatternOverrideChange)
+            if (label !== (override?.label || '')) onChange(patternKey, { label });
+          }}
+          className="w-32 px-2 py-0.5 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-xs font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+        />
+      </label>
+      <label className="flex items-center gap-1 text-xs text-text-muted">
+        Priority
+        <input
+          title="Lower runs first and wins overlapping matches"
+          type="number"
+          defaultValue={override?.priority ?? ''}
+          placeholder="Default"
+          onBlur={(e) => {
+            const priority = e.target.value === '' ? undefined : Number(e.target.value);
+            if (priority !== override?.priority) onChange(patternKey, { priority });
+          }}
+          className="w-20 px-2 py-0.5 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+        />
+      </label>
+    </div>
+  );
+}
+
+/**
+ * Total masked count of a pattern; hovering lists the sites
+ */
+function PatternCount({ siteCounts }: { siteCounts: (readonly [string, number])[] }) {
+  const total = siteCounts.reduce((sum, [, count]) => sum + count, 0);
+  if (total === 0) return null;
+
+  return (
+    <span
+      title={siteCounts.map(([hostname, count]) => `${hostname}: ${count.toLocaleString()}`).join('\n')}
+      className="text-xs px-1.5 py-0.5 rounded bg-bg-tertiary text-text-secondary"
+    >
+      {total.toLocaleString()} masked
+    </span>
+  );
+}
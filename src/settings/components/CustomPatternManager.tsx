@@ -4,17 +4,66 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { CustomPattern, PatternCategory, Severity } from '@/types/patterns';
+import type { CustomPattern, MaskingStrategy, PatternCategory, Severity } from '@/types/patterns';
 import { sendMessage } from '@/utils/messaging';
+import { compileSafeRegex, PATTERN_TIME_BUDGET_MS } from '@/core/safeRegex';
+import { validateReplacementTemplate } from '@/core/template';
+import type { DetectionOptions } from '@/core/detector';
+import { testPattern, type PatternTestResult, type TestedSpan } from '@/core/patternTester';
+import { UNSAVED_PATTERN_ID } from '@/core/selfTest';
+import type { InferredPattern } from '@/core/patternInference';
+import { StrategySelect } from './StrategySelect';
+import PatternWizard from './PatternWizard';
 
 interface CustomPatternManagerProps {
   onPatternsChange?: () => void;
+  categories?: Record<string, boolean>; // Current category toggles, for the live tester
+  detectionOptions?: DetectionOptions; // Current overrides and masking options, for the live tester
 }
 
-export default function CustomPatternManager({ onPatternsChange }: CustomPatternManagerProps) {
+// Always use case-insensitive global matching
+const PATTERN_FLAGS = 'gi';
+
+/**
+ * Turn form input into regex source: plain keywords are escaped for literal matching
+ */
+function toRegexSource(input: string): string {
+  // Check if it looks like a regex (contains special regex chars)
+  const hasRegexChars = /[.*+?^${}()|[\]\\]/.test(input);
+  return hasRegexChars ? input : input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Samples from a textarea, one per line
+ */
+function parseSamples(input: string): string[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Why a pattern can't be saved (invalid syntax, catastrophic backtracking), or else its risks
+ */
+function checkRegex(source: string, flags?: string): { error?: string; warnings: string[] } {
+  try {
+    return { warnings: compileSafeRegex(source, flags).warnings };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Invalid regex pattern', warnings: [] };
+  }
+}
+
+export default function CustomPatternManager({
+  onPatternsChange,
+  categories = {},
+  detectionOptions,
+}: CustomPatternManagerProps) {
   const [patterns, setPatterns] = useState<CustomPattern[]>([]);
   const [isAddingPattern, setIsAddingPattern] = useState(false);
   const [editingPattern, setEditingPattern] = useState<CustomPattern | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [draft, setDraft] = useState<Partial<CustomPattern> | null>(null);
   const [error, setError] = useState<string>('');
 
   // Load patterns on mount
@@ -35,13 +84,35 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
 
   const handleAddPattern = () => {
     setIsAddingPattern(true);
+    setIsGenerating(false);
+    setEditingPattern(null);
+    setDraft(null);
+    setError('');
+  };
+
+  const handleGeneratePattern = () => {
+    setIsGenerating(true);
+    setIsAddingPattern(false);
     setEditingPattern(null);
     setError('');
   };
 
+  // Open the wizard's proposal in the form; the examples become its must-mask samples
+  const handleUseInferred = (inferred: InferredPattern) => {
+    setDraft({
+      regex: inferred.regex,
+      replacement: `[${inferred.suggestedLabel}]`,
+      shouldMatch: inferred.examples,
+    });
+    setIsGenerating(false);
+    setIsAddingPattern(true);
+  };
+
   const handleEditPattern = (pattern: CustomPattern) => {
     setEditingPattern(pattern);
     setIsAddingPattern(false);
+    setIsGenerating(false);
+    setDraft(null);
     setError('');
   };
 
@@ -87,7 +158,9 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
 
   const handleCloseForm = () => {
     setIsAddingPattern(false);
+    setIsGenerating(false);
     setEditingPattern(null);
+    setDraft(null);
     setError('');
   };
 
@@ -95,6 +168,7 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
     await loadPatterns();
     setIsAddingPattern(false);
     setEditingPattern(null);
+    setDraft(null);
     setError('');
     onPatternsChange?.();
   };
@@ -105,12 +179,20 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
         <h3 className="text-base font-semibold text-[var(--text-primary)]">
           Custom Patterns
         </h3>
-        <button
-          onClick={handleAddPattern}
-          className="px-3 py-1.5 text-sm font-bold bg-[var(--accent-primary)] text-white rounded-md hover:bg-[#1ED760] active:scale-95 transition-all shadow-sm"
-        >
-          + Add Pattern
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleGeneratePattern}
+            className="px-3 py-1.5 text-sm font-medium bg-[var(--bg-tertiary)] text-[var(--text-primary)] border border-[var(--border-default)] rounded-md hover:bg-[var(--bg-elevated)] transition-colors"
+          >
+            Generate from Examples
+          </button>
+          <button
+            onClick={handleAddPattern}
+            className="px-3 py-1.5 text-sm font-bold bg-[var(--accent-primary)] text-white rounded-md hover:bg-[#1ED760] active:scale-95 transition-all shadow-sm"
+          >
+            + Add Pattern
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -119,9 +201,15 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
         </div>
       )}
 
+      {isGenerating && <PatternWizard onUse={handleUseInferred} onCancel={handleCloseForm} />}
+
       {(isAddingPattern || editingPattern) && (
         <PatternForm
           pattern={editingPattern}
+          draft={draft}
+          otherPatterns={patterns}
+          categories={categories}
+          detectionOptions={detectionOptions}
           onSave={handleSavePattern}
           onCancel={handleCloseForm}
           onError={setError}
@@ -129,7 +217,7 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
       )}
 
       <div className="space-y-2">
-        {patterns.length === 0 && !isAddingPattern && !editingPattern && (
+        {patterns.length === 0 && !isAddingPattern && !editingPattern && !isGenerating && (
           <div className="text-center py-8 text-[var(--text-muted)]">
             No custom patterns yet. Click "Add Pattern" to create one.
           </div>
@@ -151,28 +239,95 @@ export default function CustomPatternManager({ onPatternsChange }: CustomPattern
 
 interface PatternFormProps {
   pattern: CustomPattern | null;
+  draft?: Partial<CustomPattern> | null; // Initial values of a new pattern (from the wizard)
+  otherPatterns: CustomPattern[];
+  categories: Record<string, boolean>;
+  detectionOptions?: DetectionOptions;
   onSave: () => void;
   onCancel: () => void;
   onError: (error: string) => void;
 }
 
-function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
+function PatternForm({
+  pattern,
+  draft,
+  otherPatterns,
+  categories,
+  detectionOptions,
+  onSave,
+  onCancel,
+  onError,
+}: PatternFormProps) {
+  // Editing starts from the saved pattern, adding from the wizard's proposal (if any)
+  const initial = pattern || draft;
+
   // Initialize replacement without brackets (strip them if editing existing pattern)
-  const initialReplacement = pattern?.replacement
-    ? pattern.replacement.replace(/[\[\]]/g, '')
+  const initialReplacement = initial?.replacement
+    ? initial.replacement.replace(/[\[\]]/g, '')
     : '';
 
-  const [name, setName] = useState(pattern?.name || '');
-  const [pattern_input, setPatternInput] = useState(pattern?.regex || '');
+  const [name, setName] = useState(initial?.name || '');
+  const [pattern_input, setPatternInput] = useState(initial?.regex || '');
   const [replacement, setReplacement] = useState(initialReplacement);
+  const [maskingStrategy, setMaskingStrategy] = useState<MaskingStrategy>(
+    pattern?.maskingStrategy || 'default'
+  );
+  const [shouldMatch, setShouldMatch] = useState((initial?.shouldMatch || []).join('\n'));
+  const [shouldNotMatch, setShouldNotMatch] = useState(
+    (initial?.shouldNotMatch || []).join('\n')
+  );
+  const [testText, setTestText] = useState(draft?.shouldMatch?.join('\n') || '');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const regexCheck = pattern_input.trim()
+    ? checkRegex(toRegexSource(pattern_input.trim()), PATTERN_FLAGS)
+    : { warnings: [] };
+
+  let templateError = '';
+  try {
+    validateReplacementTemplate(`[${replacement.trim()}]`);
+  } catch (err) {
+    templateError = err instanceof Error ? err.message : 'Invalid replacement template';
+  }
+
+  // Live test of the pattern as currently typed, against the user's other patterns and settings
+  let testResult: PatternTestResult | null = null;
+  let testError = '';
+  if (testText && regexCheck.error) {
+    testError = regexCheck.error;
+  } else if (testText && pattern_input.trim()) {
+    try {
+      const candidate: CustomPattern = {
+        id: pattern?.id || UNSAVED_PATTERN_ID,
+        name: name.trim() || 'This pattern',
+        regex: toRegexSource(pattern_input.trim()),
+        flags: PATTERN_FLAGS,
+        replacement: templateError ? '[CUSTOM]' : `[${replacement.trim() || 'CUSTOM'}]`,
+        category: 'custom',
+        severity: 'medium',
+        priority: pattern?.priority || 0,
+        enabled: true,
+        maskingStrategy: maskingStrategy === 'default' ? undefined : maskingStrategy,
+        createdAt: 0,
+        updatedAt: 0,
+      };
+      testResult = testPattern(candidate, testText, otherPatterns, categories, detectionOptions);
+      if (testResult.timedOut) {
+        testError = `Ran over its ${PATTERN_TIME_BUDGET_MS} ms time budget; on a paste it would be turned off`;
+      }
+    } catch {
+      testError = 'Invalid pattern syntax';
+    }
+  }
+
   // Handle replacement text with auto-uppercase and bracket formatting
   const handleReplacementChange = (value: string) => {
     // Remove any existing brackets
     let cleaned = value.replace(/[\[\]]/g, '');
-    // Convert to uppercase
-    cleaned = cleaned.toUpperCase();
+    // Convert to uppercase, except template variables like {len} or {suffix:4}
+    cleaned = cleaned.replace(/\{[^}]*\}?|[^{]+/g, (part) =>
+      part.startsWith('{') ? part : part.toUpperCase()
+    );
     // Set the value (brackets will be added on submit)
     setReplacement(cleaned);
   };
@@ -201,23 +356,19 @@ function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
       return;
     }
 
-    // Auto-detect if input is a keyword or regex
-    let regex = pattern_input.trim();
-    const flags = 'gi'; // Always use case-insensitive global matching
-
-    // Check if it looks like a regex (contains special regex chars)
-    const hasRegexChars = /[.*+?^${}()|[\]\\]/.test(regex);
-
-    if (!hasRegexChars) {
-      // It's a simple keyword - escape it for literal matching
-      regex = regex.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (templateError) {
+      onError(templateError);
+      setIsSubmitting(false);
+      return;
     }
 
-    // Validate regex syntax
-    try {
-      new RegExp(regex, flags);
-    } catch (err) {
-      onError('Invalid pattern syntax');
+    // Auto-detect if input is a keyword or regex
+    const regex = toRegexSource(pattern_input.trim());
+    const flags = PATTERN_FLAGS;
+
+    // Refuse invalid syntax and catastrophic backtracking
+    if (regexCheck.error) {
+      onError(regexCheck.error);
       setIsSubmitting(false);
       return;
     }
@@ -234,6 +385,11 @@ function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
         category: 'custom' as PatternCategory,
         severity: 'medium' as Severity,
         priority: 0,
+        // 'default' follows the masking style setting
+        maskingStrategy: maskingStrategy === 'default' ? undefined : maskingStrategy,
+        // Saving fails if the pattern gets its own samples wrong
+        shouldMatch: parseSamples(shouldMatch),
+        shouldNotMatch: parseSamples(shouldNotMatch),
         // When editing, preserve existing enabled state; when adding, default to true
         ...(pattern ? {} : { enabled: true }),
       };
@@ -296,6 +452,17 @@ function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
           <p className="mt-1.5 text-xs text-[var(--text-muted)]">
             Enter a keyword (e.g., "secret_key") or regex pattern (e.g., "EMP-\d{'{5}'}")
           </p>
+          <p className="mt-1 text-xs text-[var(--text-muted)]">
+            To mask only part of the match, name it <code className="font-mono">secret</code>: X-Internal-Key: (?&lt;secret&gt;\w+)
+          </p>
+          {regexCheck.error && (
+            <p className="mt-1.5 text-xs text-red-400">{regexCheck.error}</p>
+          )}
+          {regexCheck.warnings.map((warning) => (
+            <p key={warning} className="mt-1.5 text-xs text-accent-warning">
+              ⚠️ {warning}
+            </p>
+          ))}
         </div>
 
         <div>
@@ -311,7 +478,7 @@ function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
               value={replacement}
               onChange={(e) => handleReplacementChange(e.target.value)}
               placeholder="EMP_ID"
-              className="w-full pl-7 pr-7 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)] uppercase"
+              className="w-full pl-7 pr-7 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
               required
             />
             <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)] font-mono text-sm pointer-events-none">
@@ -321,6 +488,67 @@ function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
           <p className="mt-1.5 text-xs text-[var(--text-muted)]">
             Text will be automatically formatted as [YOUR_TEXT] in uppercase
           </p>
+          <p className="mt-1 text-xs text-[var(--text-muted)]">
+            Add hints after a space with {'{len}'}, {'{n}'}, {'{prefix:4}'}, {'{suffix:4}'} or {'{sha256:8}'}, e.g. INTERNAL_TOKEN len={'{len}'} ...{'{suffix:4}'}
+          </p>
+          {templateError && (
+            <p className="mt-1.5 text-xs text-accent-warning">⚠️ {templateError}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+            Mask As
+          </label>
+          <StrategySelect value={maskingStrategy} onChange={setMaskingStrategy} />
+          <p className="mt-1.5 text-xs text-[var(--text-muted)]">
+            Env references and removed values aren't restored on copy
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+            Test Text
+          </label>
+          <textarea
+            value={testText}
+            onChange={(e) => setTestText(e.target.value)}
+            placeholder="Paste sample text to see what the pattern matches"
+            rows={3}
+            className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+          />
+          {testError && <p className="mt-1.5 text-xs text-accent-warning">⚠️ {testError}</p>}
+          {testResult && <PatternTestPreview text={testText} result={testResult} />}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+              Must Mask
+            </label>
+            <textarea
+              value={shouldMatch}
+              onChange={(e) => setShouldMatch(e.target.value)}
+              placeholder="EMP-12345"
+              rows={3}
+              className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+              Must Not Mask
+            </label>
+            <textarea
+              value={shouldNotMatch}
+              onChange={(e) => setShouldNotMatch(e.target.value)}
+              placeholder="EMP-ID"
+              rows={3}
+              className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+            />
+          </div>
+          <p className="md:col-span-2 -mt-2 text-xs text-[var(--text-muted)]">
+            One sample per line. The pattern isn't saved if it gets one of them wrong, and the self-test keeps checking them
+          </p>
         </div>
       </div>
 
@@ -344,6 +572,72 @@ function PatternForm({ pattern, onSave, onCancel, onError }: PatternFormProps) {
   );
 }
 
+/**
+ * Status of a tested span: who masks it, and who else wanted it
+ */
+function describeTestedSpan(span: TestedSpan): string {
+  const status = span.claimedBy
+    ? `Masked by ${span.claimedBy} instead (it wins the overlap)`
+    : span.level === 'warn'
+      ? 'Not masked: the surrounding text lowers its confidence'
+      : 'Masked by this pattern';
+  const others = span.competitors.filter((name) => name !== span.claimedBy);
+  return others.length > 0 ? `${status}; also matched by ${others.join(', ')}` : status;
+}
+
+/**
+ * Sample text with the pattern's matches highlighted, the status of each match
+ * and the masked result
+ */
+function PatternTestPreview({ text, result }: { text: string; result: PatternTestResult }) {
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+
+  result.spans.forEach((span) => {
+    pieces.push(text.slice(cursor, span.index));
+    pieces.push(
+      <mark
+        key={span.index}
+        title={describeTestedSpan(span)}
+        className={`rounded px-0.5 ${
+          span.claimedBy || span.level === 'warn'
+            ? 'bg-accent-warning/20 text-accent-warning'
+            : 'bg-[var(--accent-primary)]/20 text-[var(--accent-primary)]'
+        }`}
+      >
+        {span.value}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  pieces.push(text.slice(cursor));
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <div className="p-2 rounded bg-[var(--bg-tertiary)] font-mono whitespace-pre-wrap break-all text-[var(--text-secondary)]">
+        {pieces}
+      </div>
+      {result.spans.length === 0 ? (
+        <p className="text-[var(--text-muted)]">No matches</p>
+      ) : (
+        <ul className="space-y-1">
+          {result.spans.map((span) => (
+            <li key={span.index} className="text-[var(--text-secondary)]">
+              <code className="font-mono text-[var(--text-primary)]">{span.value}</code>: {describeTestedSpan(span)}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div>
+        <span className="text-[var(--text-muted)]">Pasted as:</span>
+        <div className="mt-1 p-2 rounded bg-[var(--bg-tertiary)] font-mono whitespace-pre-wrap break-all text-[var(--text-primary)]">
+          {result.masked}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface PatternItemProps {
   pattern: CustomPattern;
   onEdit: (pattern: CustomPattern) => void;
@@ -352,6 +646,14 @@ interface PatternItemProps {
 }
 
 function PatternItem({ pattern, onEdit, onDelete, onToggle }: PatternItemProps) {
+  const { error, warnings } = checkRegex(pattern.regex, pattern.flags);
+  // Stored patterns that no longer compile (e.g. (a|aa)+) or that timed out are skipped
+  const problem = error
+    ? `Not used: ${error}`
+    : pattern.timedOut
+      ? `Turned off after running over its ${PATTERN_TIME_BUDGET_MS} ms time budget on a paste; edit and save it to turn it back on`
+      : '';
+
   return (
     <div className="p-4 bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded-lg">
       <div className="flex items-start justify-between">
@@ -365,8 +667,23 @@ function PatternItem({ pattern, onEdit, onDelete, onToggle }: PatternItemProps)
                 {pattern.maskedCount.toLocaleString()} protected
               </span>
             )}
+            {warnings.length > 0 && (
+              <span
+                title={warnings.join('\n')}
+                className="text-xs px-2 py-0.5 rounded bg-accent-warning/10 text-accent-warning font-medium"
+              >
+                ⚠️ Risky pattern
+              </span>
+            )}
+            {problem && (
+              <span className="text-xs px-2 py-0.5 rounded bg-red-500/10 text-red-400 font-medium">
+                {error ? 'Invalid' : 'Timed out'}
+              </span>
+            )}
           </div>
 
+          {problem && <p className="mb-2 text-xs text-red-400">{problem}</p>}
+
           <div className="space-y-1 text-sm">
             <div className="flex gap-2 items-center">
               <span className="text-[var(--text-muted)] text-xs">Pattern:</span>
@@ -0,0 +1,112 @@
+/**
+ * Pattern Wizard Component
+ * Proposes a custom pattern from example tokens; the proposal opens in the pattern form
+ * to be tweaked and saved
+ */
+
+import { useState } from 'react';
+import { inferPattern, type InferredPattern } from '@/core/patternInference';
+
+interface PatternWizardProps {
+  onUse: (inferred: InferredPattern) => void;
+  onCancel: () => void;
+}
+
+function formatLength(min: number, max: number): string {
+  return min === max ? `${min} characters` : `${min}-${max} characters`;
+}
+
+export default function PatternWizard({ onUse, onCancel }: PatternWizardProps) {
+  const [input, setInput] = useState('');
+
+  const inferred = inferPattern(input);
+  // Each example must be matched whole by the proposal
+  const fullMatch = inferred ? new RegExp(`^(?:${inferred.regex})$`) : null;
+  const checkedExamples = (inferred?.examples || []).map((example) => ({
+    example,
+    matches: fullMatch!.test(example),
+  }));
+
+  return (
+    <div className="mb-6 p-4 bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded-lg">
+      <h4 className="text-sm font-semibold text-[var(--text-primary)] mb-1">
+        Generate from Examples
+      </h4>
+      <p className="text-xs text-[var(--text-muted)] mb-4">
+        Paste a few tokens of the same kind, one per line. Fake ones work as long as they have the real format
+      </p>
+
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={'acme_live_Q3x9Tz81Kd\nacme_live_p0LmW2cN7s\nacme_live_Zk4Rq8Vb1y'}
+        rows={4}
+        className="w-full px-3 py-2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-md text-sm font-mono text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:border-[var(--accent-primary)]"
+      />
+
+      {inferred && (
+        <div className="mt-3 space-y-2 text-xs">
+          <div>
+            <span className="text-[var(--text-muted)]">Proposed pattern:</span>
+            <code className="block mt-1 p-2 rounded bg-[var(--bg-tertiary)] font-mono break-all text-[var(--accent-primary)]">
+              {inferred.regex}
+            </code>
+          </div>
+
+          <ul className="space-y-0.5 text-[var(--text-secondary)]">
+            {inferred.prefix && (
+              <li>
+                Starts with <code className="font-mono">{inferred.prefix}</code>
+              </li>
+            )}
+            {inferred.segments.map((segment, i) => (
+              <li key={i}>
+                {i > 0 && (
+                  <>
+                    then <code className="font-mono">{inferred.separators[i - 1]}</code>,{' '}
+                  </>
+                )}
+                {segment.description}, {formatLength(segment.minLength, segment.maxLength)}
+              </li>
+            ))}
+          </ul>
+
+          {inferred.warnings.map((warning) => (
+            <p key={warning} className="text-accent-warning">
+              ⚠️ {warning}
+            </p>
+          ))}
+
+          <ul className="space-y-0.5 font-mono">
+            {checkedExamples.map(({ example, matches }) => (
+              <li
+                key={example}
+                className={matches ? 'text-[var(--text-secondary)]' : 'text-red-400'}
+              >
+                {matches ? '✓' : '✗'} {example}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button
+          type="button"
+          disabled={!inferred}
+          onClick={() => inferred && onUse(inferred)}
+          className="px-4 py-2 bg-[var(--accent-primary)] text-white rounded-md text-sm font-bold hover:bg-[#1ED760] active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+        >
+          Use This Pattern
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-[var(--bg-tertiary)] text-[var(--text-primary)] border border-[var(--border-default)] rounded-md text-sm font-medium hover:bg-[var(--bg-elevated)] transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
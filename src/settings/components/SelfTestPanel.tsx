@@ -0,0 +1,56 @@
+/**
+ * Self-Test Panel Component
+ * Runs every pattern over its must-mask and must-not-mask samples and lists the failures
+ */
+
+import { useState } from 'react';
+import type { CustomPattern } from '@/types/patterns';
+import { describeSelfTestFailure, runSelfTest, type SelfTestReport } from '@/core/selfTest';
+
+interface SelfTestPanelProps {
+  customPatterns: CustomPattern[];
+}
+
+export default function SelfTestPanel({ customPatterns }: SelfTestPanelProps) {
+  const [report, setReport] = useState<SelfTestReport | null>(null);
+
+  return (
+    <div className="self-test-panel">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-base font-semibold text-[var(--text-primary)]">
+          Pattern Self-Test
+        </h3>
+        <button
+          onClick={() => setReport(runSelfTest(customPatterns))}
+          className="px-3 py-1.5 text-sm font-bold bg-[var(--accent-primary)] text-white rounded-md hover:bg-[#1ED760] active:scale-95 transition-all shadow-sm"
+        >
+          Run Self-Test
+        </button>
+      </div>
+      <p className="text-sm text-[var(--text-secondary)] mb-4">
+        Checks that every pattern masks its examples and leaves its counter-examples alone
+      </p>
+
+      {report && report.failures.length === 0 && (
+        <div className="p-3 bg-[var(--accent-primary)]/10 border border-[var(--accent-primary)]/20 rounded-md text-sm text-[var(--accent-primary)]">
+          ✓ {report.patterns} patterns passed all {report.samples} samples
+        </div>
+      )}
+
+      {report && report.failures.length > 0 && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-md text-sm text-red-400">
+          <p className="font-medium mb-2">
+            {report.failures.length} of {report.samples} samples failed
+          </p>
+          <ul className="space-y-1 text-xs font-mono">
+            {report.failures.map((failure) => (
+              <li key={`${failure.patternKey}:${failure.expected}:${failure.sample}`}>
+                ✗ {describeSelfTestFailure(failure)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Masking strategy select, shared by category toggles and custom patterns
+ */
+
+import type { MaskingStrategy } from '@/types/patterns';
+
+const STRATEGY_OPTIONS: { value: MaskingStrategy; label: string }[] = [
+  { value: 'default', label: 'Masking style' },
+  { value: 'partial', label: 'Partial reveal (sk-...9f2c)' },
+  { value: 'hash', label: 'Short hash' },
+  { value: 'env', label: 'Env reference (${API_KEY})' },
+  { value: 'redact', label: 'Remove completely' },
+];
+
+interface StrategySelectProps {
+  value: MaskingStrategy;
+  onChange: (strategy: MaskingStrategy) => void;
+  className?: string;
+}
+
+export function StrategySelect({ value, onChange, className = '' }: StrategySelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as MaskingStrategy)}
+      title="How matches are masked; env references and removed values aren't restored on copy"
+      className={`px-2 py-1 bg-bg-tertiary border border-border-default rounded-md text-xs text-text-primary focus:outline-none focus:border-accent-primary ${className}`}
+    >
+      {STRATEGY_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -10,19 +10,92 @@ export type PatternCategory =
   | 'database'
   | 'network'
   | 'pii'
+  | 'kubernetes'
+  | 'high_entropy'
+  | 'encoded'
   | 'custom';
 
 export type Severity = 'high' | 'medium' | 'low';
 
+/**
+ * How masked secrets look: numbered bracket labels, or fakes of the same shape
+ */
+export type MaskingMode = 'placeholder' | 'synthetic';
+
+/**
+ * Treatment of a masked secret, set per category or custom pattern
+ * default: the masking mode above; partial: sk-...9f2c; hash: [AWS_KEY hash:1a2b3c4d];
+ * env: ${AWS_SECRET_ACCESS_KEY}; redact: [PRIVATE_KEY removed]
+ */
+export type MaskingStrategy = 'default' | 'partial' | 'hash' | 'env' | 'redact';
+
 export interface SecretPattern {
   name: string;
+  // Settings catalog: what the pattern matches, a sample it masks and how it looks masked
+  description?: string;
+  example?: string;
+  maskedAs?: string; // Defaults to the replacement when that is a string
+  // Self-test corpus: samples the pattern must / must not mask (the example must be masked too)
+  shouldMatch?: string[];
+  shouldNotMatch?: string[];
   regex: RegExp;
   replacement: string | ((match: string) => string);
   category: PatternCategory;
   severity: Severity;
   priority?: number;
   optional?: boolean;
+  // No distinctive prefix or structure: benign key names (example, *_hash, *_file…) can
+  // rule matches out. Other detectors keep their base confidence whatever the key says
+  generic?: boolean;
   custom?: boolean; // Mark if this is a user-defined pattern
+  // Literal substrings (case-insensitive), at least one of which every match contains;
+  // the pattern is skipped when none occurs in the text
+  keywords?: string[];
+  // Checksum/structure check: true = verified, false = false positive (dropped),
+  // undefined = format can't be checked
+  validate?: (match: string) => boolean | undefined;
+  maskingStrategy?: MaskingStrategy; // Overrides the category's strategy (custom patterns)
+}
+
+/**
+ * Match produced by a scanner (offsets are relative to the scanned text)
+ */
+export interface ScannerMatch {
+  value: string;
+  index: number;
+  replacement: string;
+  confidence?: number; // 0-1, how likely the value is a real secret
+  verified?: boolean; // Passed the pattern's checksum/structure validation
+  type?: string; // Overrides the scanner name as the reported match type
+}
+
+/**
+ * Pipeline state handed to scanners
+ */
+export interface ScanContext {
+  depth: number; // Decoding depth of the scanned text (0 = original input)
+  rescan: (text: string) => PatternMatch[]; // Run all enabled detectors on derived text
+}
+
+/**
+ * Detection pass for secrets a single regex can't describe (e.g. entropy analysis)
+ * Scanners share the priority ordering and overlap rules with regex patterns
+ */
+export interface SecretScanner {
+  name: string;
+  description?: string; // Settings catalog, as on SecretPattern
+  example?: string;
+  maskedAs?: string;
+  shouldMatch?: string[]; // Self-test corpus, as on SecretPattern
+  shouldNotMatch?: string[];
+  scan: (text: string, context: ScanContext) => ScannerMatch[];
+  keywords?: string[]; // As on SecretPattern: the scan is skipped when none occurs
+  category: PatternCategory;
+  severity: Severity;
+  priority?: number;
+  optional?: boolean;
+  generic?: boolean; // As on SecretPattern
+  document?: boolean; // Needs the whole text (e.g. a manifest's kind: header), so chunked scans run it once
 }
 
 /**
@@ -38,11 +111,38 @@ export interface CustomPattern {
   severity: Severity;
   priority?: number;
   enabled: boolean;
+  maskingStrategy?: MaskingStrategy; // Overrides the custom category's strategy
+  shouldMatch?: string[]; // Samples the pattern must mask; saving fails otherwise
+  shouldNotMatch?: string[]; // Samples the pattern must leave alone
   maskedCount?: number; // Number of times this pattern has masked secrets
+  timedOut?: boolean; // Ran over its time budget on a paste; skipped until its regex is saved again
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
 }
 
+/**
+ * User changes to a built-in pattern, stored in settings by pattern key (e.g. ipv4Address)
+ */
+export interface PatternOverride {
+  enabled?: boolean; // false turns the pattern off; its category must be on either way
+  label?: string; // Replaces the pattern's label: [IP] → [SERVER_IP]
+  priority?: number; // Lower runs first and wins overlaps
+}
+
+export type PatternOverrides = Record<string, PatternOverride>;
+
+/**
+ * Known-safe value that is never masked (stored in Chrome storage)
+ */
+export interface AllowlistEntry {
+  id: string;
+  type: 'exact' | 'regex'; // Regex entries must match the whole value
+  value: string;
+  patternKeys?: string[]; // Only applies to these detectors (all when empty)
+  note?: string;
+  createdAt: number; // Timestamp
+}
+
 export interface PatternMatch {
   type: string;
   value: string;
@@ -50,7 +150,12 @@ export interface PatternMatch {
   replacement: string;
   severity: Severity;
   category: PatternCategory;
+  confidence: number; // 0-1 after context scoring (mask, warn or ignore)
+  contextKey?: string; // Key the value is assigned to (e.g. client_secret)
+  verified?: boolean; // Passed the pattern's checksum/structure validation
   customPatternId?: string; // ID of custom pattern if this is a custom match
+  patternKey: string; // Key of the detector that found it (e.g. awsAccessKey)
+  maskingStrategy?: MaskingStrategy; // Set by the pattern; otherwise the category's applies
 }
 
 export interface DetectionResult {
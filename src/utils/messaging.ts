@@ -2,6 +2,9 @@
  * Message passing between extension scripts
  */
 
+import type { CustomPattern } from '@/types/patterns';
+import type { DetectionOptions, DetectionResult } from '@/core/detector';
+
 export type MessageType =
   | 'GET_SETTINGS'
   | 'UPDATE_SETTINGS'
@@ -14,6 +17,8 @@ export type MessageType =
   | 'INCREMENT_CATEGORY_COUNTS'
   | 'INCREMENT_SITE_COUNT'
   | 'INCREMENT_CUSTOM_PATTERN_COUNT'
+  | 'INCREMENT_PATTERN_COUNTS'
+  | 'GET_PATTERN_STATS'
   | 'GET_PROTECTED_COUNT'
   | 'RESET_PROTECTED_COUNT'
   | 'IS_SITE_ENABLED'
@@ -22,7 +27,11 @@ export type MessageType =
   | 'ADD_CUSTOM_PATTERN'
   | 'UPDATE_CUSTOM_PATTERN'
   | 'DELETE_CUSTOM_PATTERN'
-  | 'TOGGLE_CUSTOM_PATTERN';
+  | 'TOGGLE_CUSTOM_PATTERN'
+  | 'MARK_PATTERNS_TIMED_OUT'
+  | 'GET_ALLOWLIST'
+  | 'ADD_ALLOWLIST_ENTRY'
+  | 'DELETE_ALLOWLIST_ENTRY';
 
 export interface Message {
   type: MessageType;
@@ -35,6 +44,25 @@ export interface MessageResponse {
   error?: string;
 }
 
+/**
+ * Port for scanning large pastes in the background worker
+ * The content script posts one 'scan' request; closing the port cancels the scan
+ */
+export const SCAN_PORT_NAME = 'clipguard-scan';
+
+export interface ScanRequest {
+  type: 'scan';
+  text: string;
+  enabledCategories?: Record<string, boolean>;
+  customPatterns?: CustomPattern[];
+  detectionOptions?: DetectionOptions;
+}
+
+export type ScanPortMessage =
+  | { type: 'progress'; scanned: number; total: number }
+  | { type: 'result'; result: DetectionResult }
+  | { type: 'error'; error: string };
+
 /**
  * Send message to background script
  */